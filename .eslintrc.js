@@ -16,6 +16,8 @@ module.exports = {
     // Allow enum form for inputs/outputs rather than literal ['main']
     'n8n-nodes-base/node-class-description-inputs-wrong-regular-node': 'off',
     'n8n-nodes-base/node-class-description-outputs-wrong': 'off',
+    // Service options come from the provider registry, which the rule cannot resolve
+    'n8n-nodes-base/node-param-default-wrong-for-options': 'off',
   },
   ignorePatterns: ['dist/**'],
 };
@@ -14,6 +14,7 @@ module.exports = {
     'n8n-nodes-base/cred-class-field-documentation-url-miscased': 'off',
     'n8n-nodes-base/node-class-description-inputs-wrong-regular-node': 'off',
     'n8n-nodes-base/node-class-description-outputs-wrong': 'off',
+    'n8n-nodes-base/node-param-default-wrong-for-options': 'off',
   },
   ignorePatterns: ['dist/**'],
 };
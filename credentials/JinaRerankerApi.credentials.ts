@@ -0,0 +1,46 @@
+import {
+	IAuthenticateGeneric,
+	ICredentialTestRequest,
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
+
+export class JinaRerankerApi implements ICredentialType {
+	name = 'jinaRerankerApi';
+	displayName = 'Jina AI Reranker API';
+	documentationUrl = 'https://jina.ai/reranker/';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+			description: 'Your Jina AI API key from https://jina.ai/api-dashboard/',
+		},
+	];
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			headers: {
+				Authorization: '=Bearer {{$credentials.apiKey}}',
+			},
+		},
+	};
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: 'https://api.jina.ai/v1',
+			url: '/rerank',
+			method: 'POST',
+			body: {
+				model: 'jina-reranker-v2-base-multilingual',
+				query: 'test',
+				documents: ['This is a test document'],
+				top_n: 1,
+			},
+		},
+	};
+}
@@ -0,0 +1,46 @@
+import {
+	IAuthenticateGeneric,
+	ICredentialTestRequest,
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
+
+export class MixedbreadRerankerApi implements ICredentialType {
+	name = 'mixedbreadRerankerApi';
+	displayName = 'Mixedbread Reranker API';
+	documentationUrl = 'https://www.mixedbread.com/api-reference/endpoints/reranking';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+			description: 'Your Mixedbread API key from https://platform.mixedbread.com/',
+		},
+	];
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			headers: {
+				Authorization: '=Bearer {{$credentials.apiKey}}',
+			},
+		},
+	};
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: 'https://api.mixedbread.com/v1',
+			url: '/reranking',
+			method: 'POST',
+			body: {
+				model: 'mixedbread-ai/mxbai-rerank-xsmall-v1',
+				query: 'test',
+				input: ['This is a test document'],
+				top_k: 1,
+			},
+		},
+	};
+}
@@ -0,0 +1,47 @@
+import {
+	IAuthenticateGeneric,
+	ICredentialTestRequest,
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
+
+export class PineconeRerankerApi implements ICredentialType {
+	name = 'pineconeRerankerApi';
+	displayName = 'Pinecone Reranker API';
+	documentationUrl = 'https://docs.pinecone.io/guides/search/rerank-results';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+			description: 'Your Pinecone API key from https://app.pinecone.io/',
+		},
+	];
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			headers: {
+				'Api-Key': '={{$credentials.apiKey}}',
+				'X-Pinecone-API-Version': '2025-01',
+			},
+		},
+	};
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: 'https://api.pinecone.io',
+			url: '/rerank',
+			method: 'POST',
+			body: {
+				model: 'bge-reranker-v2-m3',
+				query: 'test',
+				documents: [{ text: 'This is a test document' }],
+				top_n: 1,
+			},
+		},
+	};
+}
@@ -0,0 +1,46 @@
+import {
+	IAuthenticateGeneric,
+	ICredentialTestRequest,
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
+
+export class VoyageRerankerApi implements ICredentialType {
+	name = 'voyageRerankerApi';
+	displayName = 'Voyage AI Reranker API';
+	documentationUrl = 'https://docs.voyageai.com/reference/reranker-api';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+			description: 'Your Voyage AI API key from https://dashboard.voyageai.com/',
+		},
+	];
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			headers: {
+				Authorization: '=Bearer {{$credentials.apiKey}}',
+			},
+		},
+	};
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: 'https://api.voyageai.com/v1',
+			url: '/rerank',
+			method: 'POST',
+			body: {
+				model: 'rerank-2.5-lite',
+				query: 'test',
+				documents: ['This is a test document'],
+				top_k: 1,
+			},
+		},
+	};
+}
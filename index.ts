@@ -4,10 +4,20 @@ import type { ICredentialType } from 'n8n-workflow';
 import { UniversalRerankerProvider } from './nodes/UniversalRerankerProvider/UniversalRerankerProvider.node';
 import { UniversalRerankerFlow } from './nodes/UniversalRerankerFlow/UniversalRerankerFlow.node';
 import { CohereRerankerApi } from './credentials/CohereRerankerApi.credentials';
+import { JinaRerankerApi } from './credentials/JinaRerankerApi.credentials';
+import { VoyageRerankerApi } from './credentials/VoyageRerankerApi.credentials';
+import { PineconeRerankerApi } from './credentials/PineconeRerankerApi.credentials';
+import { MixedbreadRerankerApi } from './credentials/MixedbreadRerankerApi.credentials';
 
 export const nodes: INodeType[] = [
 	new UniversalRerankerProvider(),
 	new UniversalRerankerFlow(),
 ];
-export const credentials: ICredentialType[] = [new CohereRerankerApi()];
+export const credentials: ICredentialType[] = [
+	new CohereRerankerApi(),
+	new JinaRerankerApi(),
+	new VoyageRerankerApi(),
+	new PineconeRerankerApi(),
+	new MixedbreadRerankerApi(),
+];
 
@@ -6,7 +6,21 @@ import {
 	NodeConnectionTypes,
 	NodeOperationError,
 } from 'n8n-workflow';
-import { rerankWithOpenAI, rerankWithCohere } from '../shared/rerank.helpers';
+import {
+	rerankDocuments,
+	getFusionProperties,
+	getCascadeProperties,
+	getFallbackProperties,
+	getFilterProperties,
+	getDeduplicationProperties,
+	getBoostProperties,
+	getAggregationProperties,
+	getMmrCredentials,
+	getMmrProperties,
+	getServiceCredentials,
+	getServiceOptions,
+	getServiceProperties,
+} from '../shared/rerank.helpers';
 
 export class UniversalRerankerProvider implements INodeType {
 	description: INodeTypeDescription = {
@@ -15,300 +29,149 @@ export class UniversalRerankerProvider implements INodeType {
 		icon: {light:'file:urerank.svg', dark:'file:urerank.dark.svg'},
 		group: ['transform'],
 		version: 1,
-		subtitle: '={{$parameter["service"]}}',
-		description: 'Provides universal reranking for vector stores (vLLM, LocalAI, Infinity, Cohere)',
+		subtitle: '={{$parameter["strategy"] && $parameter["strategy"] !== "single" ? $parameter["strategy"] : $parameter["service"]}}',
+		description: 'Provides universal reranking for vector stores (vLLM, LocalAI, Infinity, Cohere, Jina AI, Voyage AI, Hugging Face TEI, AWS Bedrock, Google Vertex AI, NVIDIA NIM, Pinecone, Mixedbread, LLMs, embeddings, BM25 and custom endpoints)',
 		defaults: {
 			name: 'Universal Reranker Provider',
 		},
 		inputs: [],
 		outputs: [NodeConnectionTypes.AiReranker],
 		outputNames: ['Reranker'],
-		credentials: [
-			{
-				name: 'cohereApi',
-				required: false,
-				displayOptions: {
-					show: {
-						service: ['cohere'],
-					},
-				},
-			},
-			{
-				name: 'openAiApi',
-				required: false,
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-					},
-				},
-			},
-		],
+		credentials: getServiceCredentials().concat(getMmrCredentials()),
 		properties: [
 			{
-				displayName: 'Service',
-				name: 'service',
+				displayName: 'Strategy',
+				name: 'strategy',
 				type: 'options',
 				options: [
 					{
-						name: 'OpenAI-Compatible',
-						value: 'openai-compatible',
-						description: 'Compatible with vLLM, LocalAI, Infinity, and other OpenAI-compatible endpoints',
-					},
-					{
-						name: 'Cohere',
-						value: 'cohere',
-						description: 'Use Cohere rerank API',
-					},
-				],
-				default: 'openai-compatible',
-				description: 'The reranking service to use',
-			},
-			{
-				displayName: 'Endpoint',
-				name: 'endpoint',
-				type: 'string',
-				default: 'http://localhost:8000/v1/rerank',
-				description: 'The reranking endpoint URL',
-				hint: 'Example: http://localhost:8000/v1/rerank',
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
+						name: 'Single Service',
+						value: 'single',
+						description: 'Rerank with one service',
 					},
-				},
-			},
-			{
-				displayName: 'Model',
-				name: 'model',
-				type: 'string',
-				default: 'BAAI/bge-reranker-v2-m3',
-				description: 'The model to use for reranking',
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-					},
-				},
-			},
-			{
-				displayName: 'Authentication Type',
-				name: 'authenticationType',
-				type: 'options',
-				options: [
 					{
-						name: 'Bearer Token',
-						value: 'bearer',
-						description: 'Send the API key as an Authorization bearer token',
+						name: 'Cascade',
+						value: 'cascade',
+						description: 'Narrow documents down with a fast service, then reorder the candidates with a stronger one',
 					},
 					{
-						name: 'API Key Header',
-						value: 'apiKey',
-						description: 'Send the API key in the api-key header for Azure AI Foundry and similar endpoints',
+						name: 'Fallback',
+						value: 'fallback',
+						description: 'Try services in order and use the first one that responds',
 					},
 					{
-						name: 'None',
-						value: 'none',
-						description: 'Do not send an authentication header',
+						name: 'Fusion',
+						value: 'fusion',
+						description: 'Rerank with several services and combine their rankings',
 					},
 				],
-				default: 'bearer',
-				description: 'How to authenticate requests to the OpenAI-compatible reranking endpoint',
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-					},
-				},
-			},
-			{
-				displayName: 'Enable Custom Templates',
-				name: 'enableCustomTemplates',
-				type: 'boolean',
-				default: false,
-				description: 'Whether to use custom query and document templates for special models like Qwen3 Reranker. Most standard reranker models (BAAI, Jina, etc.) do not need this.',
-				hint: 'Only enable if your model requires specific prompt formatting',
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-					},
-				},
+				default: 'single',
+				description: 'How reranking services are used',
 			},
 			{
-				displayName: 'Template Preset',
-				name: 'templatePreset',
+				displayName: 'Service',
+				name: 'service',
 				type: 'options',
-				options: [
-					{
-						name: 'Qwen3 Reranker',
-						value: 'qwen3',
-						description: 'Template for Qwen3 reranker models',
-					},
-					{
-						name: 'Custom',
-						value: 'custom',
-						description: 'Define custom templates',
-					},
-				],
-				default: 'qwen3',
-				description: 'Select a template preset or use custom templates',
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-						enableCustomTemplates: [true],
-					},
-				},
-			},
-			{
-				displayName: 'Instruction',
-				name: 'instruction',
-				type: 'string',
-				default: 'Given a web search query, retrieve relevant passages that answer the query',
-				description: 'The instruction for the reranker (used in Qwen3 template)',
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-						enableCustomTemplates: [true],
-						templatePreset: ['qwen3'],
-					},
-				},
-			},
-			{
-				displayName: 'Query Prefix',
-				name: 'queryPrefix',
-				type: 'string',
-				default: '',
-				placeholder: 'e.g., [INST] ',
-				description: 'Text to add before the query. The final format will be: prefix + query + suffix.',
-				typeOptions: {
-					rows: 3,
-				},
+				options: getServiceOptions(),
+				default: 'openai-compatible',
+				description: 'The reranking service to use',
 				displayOptions: {
 					show: {
-						service: ['openai-compatible'],
-						enableCustomTemplates: [true],
-						templatePreset: ['custom'],
+						strategy: ['single'],
 					},
 				},
 			},
+			...getFusionProperties(),
+			...getCascadeProperties(),
+			...getFallbackProperties(),
+			...getServiceProperties(),
 			{
-				displayName: 'Query Suffix',
-				name: 'querySuffix',
-				type: 'string',
-				default: '',
-				placeholder: 'e.g., [/INST]',
-				description: 'Text to add after the query. The final format will be: prefix + query + suffix.',
-				typeOptions: {
-					rows: 2,
-				},
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-						enableCustomTemplates: [true],
-						templatePreset: ['custom'],
-					},
-				},
+				displayName: 'Top K',
+				name: 'topK',
+				type: 'number',
+				default: 10,
+				description: 'Maximum number of documents to return',
 			},
 			{
-				displayName: 'Document Prefix',
-				name: 'documentPrefix',
-				type: 'string',
-				default: '',
-				placeholder: 'e.g., [DOC] ',
-				description: 'Text to add before each document. The final format will be: prefix + document + suffix.',
-				displayOptions: {
-					show: {
-						service: ['openai-compatible'],
-						enableCustomTemplates: [true],
-						templatePreset: ['custom'],
-					},
-				},
+				displayName: 'Filter by Threshold',
+				name: 'enableThreshold',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to drop documents scoring below the threshold. Turn off to keep every document whatever its score, e.g. with z-scores or raw logits.',
 			},
 			{
-				displayName: 'Document Suffix',
-				name: 'documentSuffix',
-				type: 'string',
-				default: '',
-				placeholder: 'e.g., [/DOC]',
-				description: 'Text to add after each document. The final format will be: prefix + document + suffix.',
+				displayName: 'Threshold',
+				name: 'threshold',
+				type: 'number',
+				default: 0.000,
+				description: 'Minimum relevance score threshold. Most services score 0-1, but raw logits, cosine similarities and z-scores can be negative, and so can the threshold.',
 				typeOptions: {
-					rows: 2,
+					numberPrecision: 3,
+					numberStepSize: 0.001,
 				},
 				displayOptions: {
 					show: {
-						service: ['openai-compatible'],
-						enableCustomTemplates: [true],
-						templatePreset: ['custom'],
+						enableThreshold: [true],
 					},
 				},
 			},
 			{
-				displayName: 'Model',
-				name: 'cohereModel',
+				displayName: 'Score Normalization',
+				name: 'scoreNormalization',
 				type: 'options',
 				options: [
 					{
-						name: 'rerank-v3.5',
-						value: 'rerank-v3.5',
+						name: 'Min-Max',
+						value: 'minMax',
+						description: 'Scale the scores of each call to 0-1, best document 1 and worst 0',
 					},
 					{
-						name: 'rerank-english-v3.0',
-						value: 'rerank-english-v3.0',
+						name: 'None',
+						value: 'none',
+						description: 'Use the scores as returned by the service',
 					},
 					{
-						name: 'rerank-multilingual-v3.0',
-						value: 'rerank-multilingual-v3.0',
+						name: 'Sigmoid',
+						value: 'sigmoid',
+						description: 'Map logits and other unbounded scores to 0-1',
 					},
 					{
-						name: 'Custom',
-						value: 'custom',
-					},
-				],
-				default: 'rerank-v3.5',
-				description: 'The Cohere model to use for reranking',
-				displayOptions: {
-					show: {
-						service: ['cohere'],
+						name: 'Softmax',
+						value: 'softmax',
+						description: 'Turn the scores of each call into probabilities that sum to 1',
 					},
-				},
-			},
-			{
-				displayName: 'Custom Model Name',
-				name: 'cohereCustomModel',
-				type: 'string',
-				default: '',
-				placeholder: 'Enter custom Cohere model name',
-				description: 'Custom Cohere model name to use for reranking',
-				displayOptions: {
-					show: {
-						service: ['cohere'],
-						cohereModel: ['custom'],
+					{
+						name: 'Z-Score',
+						value: 'zScore',
+						description: 'Standard deviations above the mean score of each call',
 					},
-				},
+				],
+				default: 'none',
+				description: 'How scores are normalized before the threshold is applied, so thresholds stay meaningful across services. The score before normalization is kept in _rawScore.',
 			},
+			...getFilterProperties(),
+			...getDeduplicationProperties(),
+			...getBoostProperties(),
+			...getAggregationProperties(),
+			...getMmrProperties(),
 			{
-				displayName: 'Top K',
-				name: 'topK',
-				type: 'number',
-				default: 10,
-				description: 'Maximum number of documents to return',
+				displayName: 'Include Original Scores',
+				name: 'includeOriginalScores',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to include original document scores in the output',
 			},
 			{
-				displayName: 'Threshold',
-				name: 'threshold',
+				displayName: 'Max Documents per Request',
+				name: 'maxDocumentsPerRequest',
 				type: 'number',
-				default: 0.000,
-				description: 'Minimum relevance score threshold (0-1)',
+				default: 0,
+				description: 'Maximum number of documents sent to a service in one request (e.g. 1000 for Cohere). Larger sets are split into batches whose scores are merged. 0 sends all documents at once.',
 				typeOptions: {
 					minValue: 0,
-					maxValue: 1,
-					numberPrecision: 3,
-					numberStepSize: 0.001,
+					numberPrecision: 0,
 				},
 			},
-			{
-				displayName: 'Include Original Scores',
-				name: 'includeOriginalScores',
-				type: 'boolean',
-				default: false,
-				description: 'Whether to include original document scores in the output',
-			},
 			{
 				displayName: 'Enable Caching',
 				name: 'enableCache',
@@ -343,7 +206,7 @@ export class UniversalRerankerProvider implements INodeType {
 		// This will work with both vector stores and provide proper execution logging
 		const provider = {
 			name: 'Universal Reranker Provider',
-			description: 'Provides universal reranking for vector stores using OpenAI-compatible or Cohere endpoints',
+			description: 'Provides universal reranking for vector stores using any registered reranking service',
 			
 			// Standard rerank method used by vector stores
 			rerank: async (input: { query: string; documents: any[]; topN?: number; threshold?: number }) => {
@@ -353,9 +216,10 @@ export class UniversalRerankerProvider implements INodeType {
 				]);
 				
 				const { query, documents } = input || {};
-				const service = self.getNodeParameter('service', 0) as string;
 				const topK = input?.topN ?? (self.getNodeParameter('topK', 0) as number);
-				const threshold = input?.threshold ?? (self.getNodeParameter('threshold', 0) as number);
+				const threshold = input?.threshold ?? (self.getNodeParameter('enableThreshold', 0, true) !== false
+					? (self.getNodeParameter('threshold', 0) as number)
+					: -Infinity);
 				const includeOriginalScores = self.getNodeParameter('includeOriginalScores', 0) as boolean;
 
 				if (!query || !query.trim()) {
@@ -383,29 +247,15 @@ export class UniversalRerankerProvider implements INodeType {
 					};
 				});
 
-				let rerankedDocs: any[];
-				
-				if (service === 'cohere') {
-					rerankedDocs = await rerankWithCohere.call(
-						self as any,
-						query,
-						processedDocs,
-						topK,
-						threshold,
-						0,
-						includeOriginalScores,
-					);
-				} else {
-					rerankedDocs = await rerankWithOpenAI.call(
-						self as any,
-						query,
-						processedDocs,
-						topK,
-						threshold,
-						0,
-						includeOriginalScores,
-					);
-				}
+				const rerankedDocs = await rerankDocuments.call(
+					self as any,
+					query,
+					processedDocs,
+					topK,
+					threshold,
+					0,
+					includeOriginalScores,
+				);
 
 				// Add output logging
 				self.addOutputData(NodeConnectionTypes.AiReranker, index, [
@@ -421,7 +271,6 @@ export class UniversalRerankerProvider implements INodeType {
 					query,
 					documents,
 					topN,
-					threshold: self.getNodeParameter('threshold', 0) as number,
 				});
 				
 				// Return documents without helper fields for LangChain compatibility
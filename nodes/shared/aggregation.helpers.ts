@@ -0,0 +1,129 @@
+import type { INodeProperties } from 'n8n-workflow';
+import { getValueAtPath } from './providers/provider.utils';
+
+export type ParentAggregation = 'max' | 'meanTopN' | 'sum';
+
+export function getAggregationProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'Group Chunks by Parent',
+      name: 'groupByParent',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to group reranked chunks by a parent document field and return one result per parent, with the chunks nested in _chunks',
+    },
+    {
+      displayName: 'Parent Field',
+      name: 'parentField',
+      type: 'string',
+      default: 'metadata.source',
+      placeholder: 'e.g. metadata.parentId',
+      description: 'Path of the document field that identifies the parent document. Chunks without it are returned as their own parent.',
+      displayOptions: {
+        show: {
+          groupByParent: [true],
+        },
+      },
+    },
+    {
+      displayName: 'Parent Score',
+      name: 'parentAggregation',
+      type: 'options',
+      options: [
+        {
+          name: 'Max',
+          value: 'max',
+          description: 'Score of the best chunk',
+        },
+        {
+          name: 'Mean of Top N',
+          value: 'meanTopN',
+          description: 'Average score of the best N chunks',
+        },
+        {
+          name: 'Sum',
+          value: 'sum',
+          description: 'Total score of all chunks, favoring parents with many relevant chunks',
+        },
+      ],
+      default: 'max',
+      description: 'How the scores of the chunks are combined into the parent score',
+      displayOptions: {
+        show: {
+          groupByParent: [true],
+        },
+      },
+    },
+    {
+      displayName: 'Top N Chunks',
+      name: 'parentTopN',
+      type: 'number',
+      default: 3,
+      description: 'Number of best chunks averaged into the parent score',
+      typeOptions: {
+        minValue: 1,
+      },
+      displayOptions: {
+        show: {
+          groupByParent: [true],
+          parentAggregation: ['meanTopN'],
+        },
+      },
+    },
+  ];
+}
+
+function aggregateScores(scores: number[], method: ParentAggregation, topN: number): number {
+  if (method === 'sum') {
+    return scores.reduce((total, score) => total + score, 0);
+  }
+  if (method === 'meanTopN') {
+    const top = scores.slice(0, Math.max(1, topN));
+    return top.reduce((total, score) => total + score, 0) / top.length;
+  }
+  return scores[0];
+}
+
+/**
+ * Group reranked chunks, sorted by score, into one result per parent. A
+ * parent carries the text of its chunks in document order, the metadata of
+ * its best chunk, the aggregated `_rerankScore` and the chunks in `_chunks`.
+ */
+export function aggregateByParent(
+  results: any[],
+  texts: string[],
+  parentField: string,
+  method: ParentAggregation,
+  topN = 3,
+): any[] {
+  const groups = new Map<string, { key: any; chunks: any[]; texts: string[] }>();
+
+  results.forEach((result, i) => {
+    const key = getValueAtPath(result, parentField);
+    const id = key === undefined || key === null ? `chunk:${result._originalIndex}` : `parent:${JSON.stringify(key)}`;
+    const group = groups.get(id) ?? { key: key ?? null, chunks: [], texts: [] };
+    group.chunks.push(result);
+    group.texts.push(texts[i]);
+    groups.set(id, group);
+  });
+
+  return Array.from(groups.values())
+    .map(({ key, chunks, texts: chunkTexts }) => {
+      const [best] = chunks;
+      const pageContent = chunks
+        .map((chunk, i) => ({ index: chunk._originalIndex, text: chunkTexts[i] }))
+        .sort((a, b) => a.index - b.index)
+        .map(({ text }) => text)
+        .join('\n\n');
+
+      return {
+        pageContent,
+        metadata: best.metadata ?? {},
+        _parentKey: key,
+        _rerankScore: aggregateScores(chunks.map((chunk) => chunk._rerankScore), method, topN),
+        _originalIndex: best._originalIndex,
+        _chunks: chunks,
+      };
+    })
+    .sort((a, b) => b._rerankScore - a._rerankScore);
+}
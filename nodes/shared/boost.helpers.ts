@@ -0,0 +1,223 @@
+import type { INodeProperties } from 'n8n-workflow';
+import { getValueAtPath } from './providers/provider.utils';
+import { normalizeScores } from './score.utils';
+
+export interface BoostRule {
+  field: string;
+  operator: 'equals' | 'notEquals' | 'contains' | 'exists';
+  value?: string;
+  mode: 'multiply' | 'add';
+  amount: number;
+}
+
+export interface RecencyDecay {
+  field: string;
+  halfLifeDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getBoostProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'Boost Rules',
+      name: 'boostRules',
+      type: 'fixedCollection',
+      placeholder: 'Add Boost Rule',
+      typeOptions: {
+        multipleValues: true,
+      },
+      default: {},
+      description: 'Adjust the relevance score of documents whose fields match, applied in order after reranking',
+      options: [
+        {
+          displayName: 'Rule',
+          name: 'rules',
+          values: [
+            {
+              displayName: 'Amount',
+              name: 'amount',
+              type: 'number',
+              default: 1.2,
+              description: 'The factor to multiply by, or the value to add (negative to demote)',
+              typeOptions: {
+                numberPrecision: 3,
+              },
+            },
+            {
+              displayName: 'Field',
+              name: 'field',
+              type: 'string',
+              default: '',
+              placeholder: 'e.g. metadata.source',
+              description: 'Path of the document field to check',
+            },
+            {
+              displayName: 'Mode',
+              name: 'mode',
+              type: 'options',
+              options: [
+                {
+                  name: 'Add',
+                  value: 'add',
+                },
+                {
+                  name: 'Multiply',
+                  value: 'multiply',
+                },
+              ],
+              default: 'multiply',
+              description: 'How the amount is applied to the score',
+            },
+            {
+              displayName: 'Operator',
+              name: 'operator',
+              type: 'options',
+              options: [
+                {
+                  name: 'Contains',
+                  value: 'contains',
+                  description: 'The text contains the value, or the list has an entry equal to it',
+                },
+                {
+                  name: 'Equals',
+                  value: 'equals',
+                },
+                {
+                  name: 'Exists',
+                  value: 'exists',
+                  description: 'The field is set, whatever its value',
+                },
+                {
+                  name: 'Not Equals',
+                  value: 'notEquals',
+                },
+              ],
+              default: 'equals',
+            },
+            {
+              displayName: 'Value',
+              name: 'value',
+              type: 'string',
+              default: '',
+              description: 'The value to compare with, as text',
+              displayOptions: {
+                hide: {
+                  operator: ['exists'],
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      displayName: 'Recency Decay',
+      name: 'enableRecencyDecay',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to halve the relevance score of documents each time their date gets one half-life older, so fresh documents outrank stale ones with similar relevance',
+    },
+    {
+      displayName: 'Date Field',
+      name: 'recencyField',
+      type: 'string',
+      default: 'metadata.updatedAt',
+      description: 'Path of the document date, as an ISO 8601 date or a Unix timestamp in seconds or milliseconds. Documents without a valid date are not decayed.',
+      displayOptions: {
+        show: {
+          enableRecencyDecay: [true],
+        },
+      },
+    },
+    {
+      displayName: 'Half-Life (Days)',
+      name: 'recencyHalfLife',
+      type: 'number',
+      default: 30,
+      description: 'Age in days at which the score is halved',
+      typeOptions: {
+        minValue: 0.01,
+      },
+      displayOptions: {
+        show: {
+          enableRecencyDecay: [true],
+        },
+      },
+    },
+  ];
+}
+
+function matchesRule(doc: any, rule: BoostRule): boolean {
+  const value = getValueAtPath(doc, rule.field);
+  const expected = String(rule.value ?? '');
+
+  switch (rule.operator) {
+    case 'exists':
+      return value !== undefined && value !== null;
+    case 'contains':
+      return Array.isArray(value)
+        ? value.some((entry) => String(entry) === expected)
+        : value !== undefined && value !== null && String(value).includes(expected);
+    case 'notEquals':
+      return value === undefined || value === null || String(value) !== expected;
+    default:
+      return value !== undefined && value !== null && String(value) === expected;
+  }
+}
+
+/**
+ * Parse an ISO 8601 date or a Unix timestamp. Numbers below 1e11 are read as
+ * seconds, since that many milliseconds is still early 1973.
+ */
+export function parseDate(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const numeric = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(String(value)) ? Number(value) : NaN;
+  const time = Number.isFinite(numeric)
+    ? (numeric < 1e11 ? numeric * 1000 : numeric)
+    : new Date(String(value)).getTime();
+  return Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * Apply boost rules and recency decay to reranked documents and sort them by
+ * the adjusted score. Adjusted documents keep the reranking score in
+ * `_unboostedScore`. Multiplying a negative score would demote a boosted
+ * document and lift a decayed one, so when multiply rules or decay meet
+ * negative scores, the scores are min-max scaled to 0-1 first.
+ */
+export function applyBoosts(
+  results: any[],
+  rules: BoostRule[],
+  recency?: RecencyDecay,
+  now = Date.now(),
+): any[] {
+  const scores = results.map((doc) => doc._rerankScore as number);
+  const multiplies = recency !== undefined || rules.some((rule) => rule.field && rule.mode !== 'add');
+  const baseScores = multiplies && scores.some((score) => score < 0) ? normalizeScores(scores, 'minMax') : scores;
+
+  return results
+    .map((doc, index) => {
+      let score = baseScores[index];
+      for (const rule of rules) {
+        if (rule.field && matchesRule(doc, rule)) {
+          score = rule.mode === 'add' ? score + rule.amount : score * rule.amount;
+        }
+      }
+
+      if (recency) {
+        const date = parseDate(getValueAtPath(doc, recency.field));
+        if (date !== undefined) {
+          const ageDays = Math.max(0, now - date) / DAY_MS;
+          score *= Math.pow(0.5, ageDays / recency.halfLifeDays);
+        }
+      }
+
+      return score === doc._rerankScore
+        ? doc
+        : { ...doc, _rerankScore: score, _unboostedScore: doc._rerankScore };
+    })
+    .sort((a, b) => b._rerankScore - a._rerankScore);
+}
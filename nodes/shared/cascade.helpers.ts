@@ -0,0 +1,63 @@
+import type { INodeProperties } from 'n8n-workflow';
+import { getServiceOptions } from './providers';
+
+export function getCascadeProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'First Stage Service',
+      name: 'cascadeFirstService',
+      type: 'options',
+      options: getServiceOptions(),
+      default: 'bm25',
+      description: 'Fast service that narrows all documents down to the candidates for the second stage',
+      displayOptions: {
+        show: {
+          strategy: ['cascade'],
+        },
+      },
+    },
+    {
+      displayName: 'First Stage Candidates',
+      name: 'cascadeCandidates',
+      type: 'number',
+      default: 20,
+      description: 'How many documents the first stage passes on to the second stage',
+      typeOptions: {
+        minValue: 1,
+      },
+      displayOptions: {
+        show: {
+          strategy: ['cascade'],
+        },
+      },
+    },
+    {
+      displayName: 'First Stage Threshold',
+      name: 'cascadeFirstThreshold',
+      type: 'number',
+      default: 0,
+      description: 'Minimum first stage score for a document to reach the second stage. Uses the score scale of the first stage service, e.g. unbounded BM25 scores.',
+      typeOptions: {
+        numberPrecision: 3,
+      },
+      displayOptions: {
+        show: {
+          strategy: ['cascade'],
+        },
+      },
+    },
+    {
+      displayName: 'Second Stage Service',
+      name: 'cascadeSecondService',
+      type: 'options',
+      options: getServiceOptions(),
+      default: 'cohere',
+      description: 'Stronger service that reorders the first stage candidates. Top K and Threshold apply to its scores.',
+      displayOptions: {
+        show: {
+          strategy: ['cascade'],
+        },
+      },
+    },
+  ];
+}
@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import type { INodeProperties } from 'n8n-workflow';
+import { tokenize } from './text.utils';
+
+export type DeduplicationMethod = 'none' | 'exact' | 'near';
+
+const SHINGLE_SIZE = 3;
+const MINHASH_PERMUTATIONS = 128;
+
+export function getDeduplicationProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'Deduplication',
+      name: 'deduplication',
+      type: 'options',
+      options: [
+        {
+          name: 'None',
+          value: 'none',
+          description: 'Rerank every document',
+        },
+        {
+          name: 'Exact',
+          value: 'exact',
+          description: 'Collapse documents whose text is identical after ignoring case, punctuation and whitespace',
+        },
+        {
+          name: 'Near-Duplicate',
+          value: 'near',
+          description: 'Also collapse documents whose word shingles mostly overlap, e.g. chunks that differ by a few words',
+        },
+      ],
+      default: 'none',
+      description: 'Whether to send only one document per group of duplicates to the reranking service',
+    },
+    {
+      displayName: 'Similarity Threshold',
+      name: 'dedupSimilarity',
+      type: 'number',
+      default: 0.85,
+      description: 'Estimated Jaccard similarity of word shingles (0-1) above which two documents count as duplicates',
+      typeOptions: {
+        minValue: 0,
+        maxValue: 1,
+        numberPrecision: 2,
+        numberStepSize: 0.05,
+      },
+      displayOptions: {
+        show: {
+          deduplication: ['near'],
+        },
+      },
+    },
+    {
+      displayName: 'Keep Duplicates in Output',
+      name: 'dedupKeepDuplicates',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to return duplicates right after the document they duplicate, with its score and a _duplicateOf reference. Otherwise they are dropped.',
+      displayOptions: {
+        hide: {
+          deduplication: ['none'],
+        },
+      },
+    },
+  ];
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer, used to derive one hash function per permutation
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const permutationSeeds = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => mix(i + 1));
+
+function minHashSignature(tokens: string[]): number[] {
+  const shingles = new Set<string>();
+  if (tokens.length <= SHINGLE_SIZE) {
+    shingles.add(tokens.join(' '));
+  } else {
+    for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+      shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+  }
+
+  const signature = permutationSeeds.map(() => Infinity);
+  for (const shingle of shingles) {
+    const hash = fnv1a(shingle);
+    permutationSeeds.forEach((seed, i) => {
+      signature[i] = Math.min(signature[i], mix(hash ^ seed));
+    });
+  }
+  return signature;
+}
+
+function estimatedJaccard(a: number[], b: number[]): number {
+  return a.filter((value, i) => value === b[i]).length / a.length;
+}
+
+/**
+ * Map every document to the index of the earlier document it duplicates, or
+ * -1 for the first document of each group. Texts are compared by a hash of
+ * their normalized words, and for near duplicates by MinHash signatures of
+ * their word shingles.
+ */
+export function findDuplicates(texts: string[], method: DeduplicationMethod, similarity = 0.85): number[] {
+  const duplicateOf = texts.map(() => -1);
+  if (method === 'none') {
+    return duplicateOf;
+  }
+
+  const tokens = texts.map(tokenize);
+  const seen = new Map<string, number>();
+  const representatives: Array<{ index: number; signature: number[] }> = [];
+
+  tokens.forEach((words, index) => {
+    const key = createHash('sha1').update(words.join(' '), 'utf8').digest('hex');
+    const exact = seen.get(key);
+    if (exact !== undefined) {
+      duplicateOf[index] = exact;
+      return;
+    }
+    seen.set(key, index);
+
+    if (method === 'near') {
+      const signature = minHashSignature(words);
+      const near = representatives.find((candidate) => estimatedJaccard(signature, candidate.signature) >= similarity);
+      if (near) {
+        duplicateOf[index] = near.index;
+        seen.set(key, near.index);
+        return;
+      }
+      representatives.push({ index, signature });
+    }
+  });
+
+  return duplicateOf;
+}
+
+/**
+ * Add the duplicates collapsed by findDuplicates back to reranked results,
+ * whose `_originalIndex` refers to the full document list. Each
+ * representative lists its duplicates in `_duplicates`; with keepDuplicates
+ * those follow it with the same score and a `_duplicateOf` reference, up to
+ * Top K results.
+ */
+export function expandDuplicates(
+  results: any[],
+  docs: any[],
+  duplicateOf: number[],
+  keepDuplicates: boolean,
+  topK: number,
+): any[] {
+  const expanded: any[] = [];
+
+  for (const result of results) {
+    const originalIndex = result._originalIndex;
+    const duplicates = duplicateOf.flatMap((original, index) => (original === originalIndex ? [index] : []));
+    expanded.push(duplicates.length ? { ...result, _duplicates: duplicates } : result);
+
+    if (keepDuplicates) {
+      for (const index of duplicates) {
+        expanded.push({
+          ...docs[index],
+          _rerankScore: result._rerankScore,
+          _originalIndex: index,
+          _duplicateOf: originalIndex,
+        });
+      }
+    }
+  }
+
+  return expanded.slice(0, topK);
+}
@@ -0,0 +1,48 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (!normA || !normB) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Embed all inputs with one call to an OpenAI-compatible /embeddings endpoint,
+ * returned in input order.
+ */
+export async function requestEmbeddings(
+  this: IExecuteFunctions,
+  endpoint: string,
+  model: string,
+  inputs: string[],
+  headers: Record<string, string>,
+): Promise<number[][]> {
+  const response = await this.helpers.httpRequest({
+    method: 'POST',
+    url: endpoint,
+    headers,
+    body: {
+      model,
+      input: inputs,
+    },
+    json: true,
+  });
+
+  const data = response?.data;
+  if (!Array.isArray(data) || data.length !== inputs.length) {
+    throw new Error(`Expected ${inputs.length} embeddings, received ${Array.isArray(data) ? data.length : 'none'}`);
+  }
+
+  return [...data]
+    .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+    .map((entry: any) => entry.embedding);
+}
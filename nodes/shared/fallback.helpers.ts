@@ -0,0 +1,96 @@
+import { INodeProperties, NodeApiError } from 'n8n-workflow';
+import { getServiceOptions } from './providers';
+
+export type FallbackErrorClass = 'connection' | 'rateLimit' | 'serverError' | 'clientError';
+
+// Reported as the serving provider when every service failed
+export const ORIGINAL_ORDER = 'original-order';
+
+export function getFallbackProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'Services',
+      name: 'fallbackServices',
+      type: 'multiOptions',
+      options: getServiceOptions(),
+      default: [],
+      required: true,
+      description: 'The services to try, in the order they were selected. The next service is used when one fails.',
+      displayOptions: {
+        show: {
+          strategy: ['fallback'],
+        },
+      },
+    },
+    {
+      displayName: 'Fall Back On',
+      name: 'fallbackOn',
+      type: 'multiOptions',
+      options: [
+        {
+          name: 'Client Errors (4xx)',
+          value: 'clientError',
+          description: 'Other 4xx responses, e.g. invalid API keys or unsupported models',
+        },
+        {
+          name: 'Connection Errors',
+          value: 'connection',
+          description: 'No usable response: connection refused, DNS failures, timeouts or unreadable responses',
+        },
+        {
+          name: 'Rate Limits (429)',
+          value: 'rateLimit',
+        },
+        {
+          name: 'Server Errors (5xx)',
+          value: 'serverError',
+        },
+      ],
+      default: ['connection', 'rateLimit', 'serverError'],
+      description: 'Which API errors move on to the next service. Other errors fail the execution.',
+      displayOptions: {
+        show: {
+          strategy: ['fallback'],
+        },
+      },
+    },
+    {
+      displayName: 'Keep Original Order as Last Resort',
+      name: 'fallbackToOriginalOrder',
+      type: 'boolean',
+      default: true,
+      description: 'Whether to return the first Top K documents in their original order, with a score of 0, when every service failed',
+      displayOptions: {
+        show: {
+          strategy: ['fallback'],
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Classify an error thrown by rerankWithProvider. Only API errors can trigger
+ * a fallback; configuration errors such as missing credentials return
+ * undefined so they still fail the execution.
+ */
+export function classifyRerankError(error: unknown): FallbackErrorClass | undefined {
+  if (!(error instanceof NodeApiError)) {
+    return undefined;
+  }
+
+  const status = Number(error.httpCode);
+  if (!Number.isInteger(status)) {
+    return 'connection';
+  }
+  if (status === 429) {
+    return 'rateLimit';
+  }
+  if (status >= 500) {
+    return 'serverError';
+  }
+  if (status >= 400) {
+    return 'clientError';
+  }
+  return 'connection';
+}
@@ -0,0 +1,161 @@
+import type { INodeProperties } from 'n8n-workflow';
+import { getValueAtPath } from './providers/provider.utils';
+import { parseDate } from './boost.helpers';
+
+export interface FilterCondition {
+  field: string;
+  operator: 'equals' | 'in' | 'range' | 'exists';
+  value?: string;
+  min?: string;
+  max?: string;
+}
+
+export function getFilterProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'Metadata Filters',
+      name: 'metadataFilters',
+      type: 'fixedCollection',
+      placeholder: 'Add Condition',
+      typeOptions: {
+        multipleValues: true,
+      },
+      default: {},
+      description: 'Drop documents that fail any of these conditions before they are sent to the reranking service, e.g. to enforce tenant or access-level filtering locally',
+      options: [
+        {
+          displayName: 'Condition',
+          name: 'conditions',
+          values: [
+            {
+              displayName: 'Field',
+              name: 'field',
+              type: 'string',
+              default: '',
+              placeholder: 'e.g. metadata.tenantId',
+              description: 'Path of the document field to check',
+            },
+            {
+              displayName: 'Max',
+              name: 'max',
+              type: 'string',
+              default: '',
+              description: 'Inclusive upper bound, a number or a date. Leave empty for no upper bound.',
+              displayOptions: {
+                show: {
+                  operator: ['range'],
+                },
+              },
+            },
+            {
+              displayName: 'Min',
+              name: 'min',
+              type: 'string',
+              default: '',
+              description: 'Inclusive lower bound, a number or a date. Leave empty for no lower bound.',
+              displayOptions: {
+                show: {
+                  operator: ['range'],
+                },
+              },
+            },
+            {
+              displayName: 'Operator',
+              name: 'operator',
+              type: 'options',
+              options: [
+                {
+                  name: 'Equals',
+                  value: 'equals',
+                },
+                {
+                  name: 'Exists',
+                  value: 'exists',
+                  description: 'The field is set, whatever its value',
+                },
+                {
+                  name: 'In',
+                  value: 'in',
+                  description: 'The field equals one of a comma-separated list of values',
+                },
+                {
+                  name: 'Range',
+                  value: 'range',
+                  description: 'The field is a number or date between Min and Max',
+                },
+              ],
+              default: 'equals',
+            },
+            {
+              displayName: 'Value',
+              name: 'value',
+              type: 'string',
+              default: '',
+              description: 'The value to compare with, as text. For In, a comma-separated list.',
+              displayOptions: {
+                show: {
+                  operator: ['equals', 'in'],
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+  ];
+}
+
+function toComparable(value: unknown, bound: string): [number, number] | undefined {
+  const boundNumber = Number(bound);
+  if (Number.isFinite(boundNumber) && value !== '' && Number.isFinite(Number(value))) {
+    return [Number(value), boundNumber];
+  }
+  const date = parseDate(value);
+  const boundDate = parseDate(bound);
+  return date === undefined || boundDate === undefined ? undefined : [date, boundDate];
+}
+
+function matchesCondition(doc: any, condition: FilterCondition): boolean {
+  const value = getValueAtPath(doc, condition.field);
+  if (value === undefined || value === null) {
+    return false;
+  }
+
+  switch (condition.operator) {
+    case 'exists':
+      return true;
+    case 'in': {
+      const allowed = String(condition.value ?? '').split(',').map((entry) => entry.trim());
+      return Array.isArray(value)
+        ? value.some((entry) => allowed.includes(String(entry)))
+        : allowed.includes(String(value));
+    }
+    case 'range':
+      return [
+        { bound: condition.min, inside: (actual: number, limit: number) => actual >= limit },
+        { bound: condition.max, inside: (actual: number, limit: number) => actual <= limit },
+      ].every(({ bound, inside }) => {
+        if (bound === undefined || bound.trim() === '') {
+          return true;
+        }
+        const comparable = toComparable(value, bound.trim());
+        return comparable !== undefined && inside(...comparable);
+      });
+    default:
+      return Array.isArray(value)
+        ? value.some((entry) => String(entry) === String(condition.value ?? ''))
+        : String(value) === String(condition.value ?? '');
+  }
+}
+
+/**
+ * Indices of the documents that pass every condition. Documents missing a
+ * field fail its condition, so unlabeled documents never leak through a
+ * tenant or access-level filter.
+ */
+export function filterDocuments(docs: any[], conditions: FilterCondition[]): number[] {
+  const active = conditions.filter((condition) => condition.field);
+  return docs.flatMap((doc, index) =>
+    active.every((condition) => matchesCondition(doc, condition)) ? [index] : [],
+  );
+}
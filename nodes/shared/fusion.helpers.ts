@@ -0,0 +1,134 @@
+import type { INodeProperties } from 'n8n-workflow';
+import { getServiceOptions } from './providers';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface ServiceRanking {
+  service: string;
+  weight: number;
+  // Reranked documents, best first, as returned by rerankWithProvider
+  results: any[];
+}
+
+export interface ServiceScore {
+  rank: number;
+  score: number;
+}
+
+export interface FusedResult {
+  index: number;
+  score: number;
+  services: Record<string, ServiceScore>;
+}
+
+export function getFusionProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'Services',
+      name: 'fusionServices',
+      type: 'multiOptions',
+      options: getServiceOptions(),
+      default: [],
+      required: true,
+      description: 'The reranking services whose rankings are combined',
+      displayOptions: {
+        show: {
+          strategy: ['fusion'],
+        },
+      },
+    },
+    {
+      displayName: 'Fusion Method',
+      name: 'fusionMethod',
+      type: 'options',
+      options: [
+        {
+          name: 'Reciprocal Rank Fusion',
+          value: 'rrf',
+          description: 'Sum of weight / (k + rank) over all services. Only ranks matter, so services with different score scales combine well.',
+        },
+        {
+          name: 'Weighted Score Sum',
+          value: 'weighted',
+          description: 'Sum of weight × score over all services. Best when all services return comparable 0-1 scores.',
+        },
+      ],
+      default: 'rrf',
+      description: 'How the rankings of the services are combined',
+      displayOptions: {
+        show: {
+          strategy: ['fusion'],
+        },
+      },
+    },
+    {
+      displayName: 'RRF K',
+      name: 'fusionRrfK',
+      type: 'number',
+      default: 60,
+      description: 'Rank constant of reciprocal rank fusion. Larger values flatten the difference between top and lower ranks.',
+      typeOptions: {
+        minValue: 1,
+      },
+      displayOptions: {
+        show: {
+          strategy: ['fusion'],
+          fusionMethod: ['rrf'],
+        },
+      },
+    },
+    {
+      displayName: 'Weights',
+      name: 'fusionWeights',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g. cohere=1, bm25=0.5',
+      description: 'Comma-separated service=weight pairs using the service IDs. Services without a weight count with 1.',
+      displayOptions: {
+        show: {
+          strategy: ['fusion'],
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Parse "cohere=1, bm25=0.5" into weights per service. Returns the offending
+ * entry as an error message when it is malformed.
+ */
+export function parseFusionWeights(value: string): Record<string, number> | string {
+  const weights: Record<string, number> = {};
+  for (const entry of String(value ?? '').split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    const service = separator > 0 ? entry.slice(0, separator).trim() : '';
+    const weight = separator > 0 ? Number(entry.slice(separator + 1).trim()) : NaN;
+    if (!service || !Number.isFinite(weight)) {
+      return `Invalid fusion weight "${entry}", expected service=weight`;
+    }
+    weights[service] = weight;
+  }
+  return weights;
+}
+
+/**
+ * Combine the rankings of several services into one score per document.
+ * Documents a service did not return contribute nothing for that service.
+ */
+export function fuseRankings(rankings: ServiceRanking[], method: FusionMethod, rrfK = 60): FusedResult[] {
+  const fused = new Map<number, FusedResult>();
+
+  for (const { service, weight, results } of rankings) {
+    results.forEach((doc, position) => {
+      const index = doc._originalIndex as number;
+      const entry = fused.get(index) ?? { index, score: 0, services: {} };
+      const rank = position + 1;
+
+      entry.services[service] = { rank, score: doc._rerankScore };
+      entry.score += method === 'rrf' ? weight / (rrfK + rank) : weight * doc._rerankScore;
+      fused.set(index, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,105 @@
+import { createSign } from 'crypto';
+import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * Build a service account JWT assertion signed with RS256, as used by the
+ * OAuth 2.0 JWT bearer grant.
+ */
+export function createServiceAccountJwt(
+  email: string,
+  privateKey: string,
+  scope: string,
+  subject?: string,
+  now = Math.floor(Date.now() / 1000),
+): string {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64Url(
+    JSON.stringify({
+      iss: email,
+      scope,
+      aud: TOKEN_URL,
+      iat: now,
+      exp: now + 3600,
+      ...(subject ? { sub: subject } : {}),
+    }),
+  );
+  const signature = createSign('RSA-SHA256').update(`${header}.${claims}`).sign(privateKey);
+  return `${header}.${claims}.${base64Url(signature)}`;
+}
+
+/**
+ * Exchange the Google service account credential for an access token. Tokens
+ * are reused until shortly before they expire. A missing credential, an
+ * unusable key or a failed exchange is a configuration error, so it is thrown
+ * as a NodeOperationError and never triggers a fallback.
+ */
+export async function getGoogleAccessToken(this: IExecuteFunctions, scope: string): Promise<string> {
+  const fail = (reason: string, error?: unknown) =>
+    new NodeOperationError(
+      this.getNode(),
+      `Google service account authentication failed: ${reason}${error ? ` (${(error as Error).message})` : ''}`,
+    );
+
+  let credentials;
+  try {
+    credentials = await this.getCredentials('googleApi');
+  } catch (error) {
+    throw fail('no usable Google API credential', error);
+  }
+  const email = String(credentials.email ?? '').trim();
+  // Keys pasted from the JSON key file often keep their escaped newlines
+  const privateKey = String(credentials.privateKey ?? '').replace(/\\n/g, '\n');
+  const subject = credentials.inpersonate ? (credentials.delegatedEmail as string) : undefined;
+
+  const cacheKey = `${email}:${subject ?? ''}:${scope}`;
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.accessToken;
+  }
+
+  let assertion: string;
+  try {
+    assertion = createServiceAccountJwt(email, privateKey, scope, subject);
+  } catch (error) {
+    throw fail('the private key cannot sign requests', error);
+  }
+
+  let response;
+  try {
+    response = await this.helpers.httpRequest({
+      method: 'POST',
+      url: TOKEN_URL,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: `grant_type=${encodeURIComponent('urn:ietf:params:oauth:grant-type:jwt-bearer')}&assertion=${assertion}`,
+      json: true,
+    });
+  } catch (error) {
+    throw fail('the token exchange was rejected', error);
+  }
+
+  if (!response?.access_token) {
+    throw fail('the token response did not contain an access token');
+  }
+
+  tokenCache.set(cacheKey, {
+    accessToken: response.access_token,
+    // Refresh a minute early so a request never starts with an expired token
+    expiresAt: Date.now() + ((response.expires_in ?? 3600) - 60) * 1000,
+  });
+  return response.access_token;
+}
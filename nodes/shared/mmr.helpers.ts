@@ -0,0 +1,199 @@
+import type { IExecuteFunctions, INodeCredentialDescription, INodeProperties } from 'n8n-workflow';
+import { cosineSimilarity, requestEmbeddings } from './embedding.helpers';
+import { getOptionalBearerHeaders } from './providers/provider.utils';
+import { tokenize } from './text.utils';
+
+export interface MmrSelection {
+  index: number;
+  score: number;
+}
+
+export function getMmrProperties(): INodeProperties[] {
+  return [
+    {
+      displayName: 'Diversify Results (MMR)',
+      name: 'enableMmr',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to pick the Top K from all reranked documents with Maximal Marginal Relevance, skipping documents too similar to ones already picked',
+    },
+    {
+      displayName: 'MMR Lambda',
+      name: 'mmrLambda',
+      type: 'number',
+      default: 0.7,
+      description: 'Trade-off between relevance (1) and diversity (0)',
+      typeOptions: {
+        minValue: 0,
+        maxValue: 1,
+        numberPrecision: 2,
+        numberStepSize: 0.05,
+      },
+      displayOptions: {
+        show: {
+          enableMmr: [true],
+        },
+      },
+    },
+    {
+      displayName: 'MMR Similarity',
+      name: 'mmrSimilarity',
+      type: 'options',
+      options: [
+        {
+          name: 'Lexical',
+          value: 'lexical',
+          description: 'Cosine similarity of word counts, computed locally',
+        },
+        {
+          name: 'Embeddings',
+          value: 'embeddings',
+          description: 'Cosine similarity of embeddings from an OpenAI-compatible /embeddings endpoint',
+        },
+      ],
+      default: 'lexical',
+      description: 'How similarity between documents is measured',
+      displayOptions: {
+        show: {
+          enableMmr: [true],
+        },
+      },
+    },
+    {
+      displayName: 'MMR Embedding Endpoint',
+      name: 'mmrEmbeddingEndpoint',
+      type: 'string',
+      default: 'http://localhost:11434/v1/embeddings',
+      description: 'The embeddings endpoint URL. If an OpenAI API credential is set on the node, its API key is sent as a bearer token.',
+      displayOptions: {
+        show: {
+          enableMmr: [true],
+          mmrSimilarity: ['embeddings'],
+        },
+      },
+    },
+    {
+      displayName: 'MMR Embedding Model',
+      name: 'mmrEmbeddingModel',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g. nomic-embed-text',
+      description: 'The embedding model to use',
+      displayOptions: {
+        show: {
+          enableMmr: [true],
+          mmrSimilarity: ['embeddings'],
+        },
+      },
+    },
+  ];
+}
+
+// The embeddings endpoint may need the OpenAI API credential whatever service reranks
+export function getMmrCredentials(): INodeCredentialDescription[] {
+  return [
+    {
+      name: 'openAiApi',
+      required: false,
+      displayOptions: {
+        show: {
+          enableMmr: [true],
+          mmrSimilarity: ['embeddings'],
+        },
+      },
+    },
+  ];
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function lexicalSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [token, count] of a) {
+    dot += count * (b.get(token) ?? 0);
+  }
+  const norm = (counts: Map<string, number>) =>
+    Math.sqrt(Array.from(counts.values()).reduce((total, count) => total + count * count, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+}
+
+/**
+ * Greedy Maximal Marginal Relevance: repeatedly pick the document maximizing
+ * lambda * relevance - (1 - lambda) * (highest similarity to a picked document).
+ * Relevance is min-max scaled so it is comparable to 0-1 similarities.
+ */
+export function selectWithMmr(
+  relevance: number[],
+  similarity: (a: number, b: number) => number,
+  k: number,
+  lambda: number,
+): MmrSelection[] {
+  const min = Math.min(...relevance);
+  const range = Math.max(...relevance) - min;
+  const scaled = relevance.map((score) => (range > 0 ? (score - min) / range : 1));
+
+  const selected: MmrSelection[] = [];
+  const remaining = relevance.map((_, index) => index);
+  while (selected.length < k && remaining.length) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, position) => {
+      const redundancy = selected.length
+        ? Math.max(...selected.map(({ index }) => similarity(candidate, index)))
+        : 0;
+      const score = lambda * scaled[candidate] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        best = position;
+      }
+    });
+    selected.push({ index: remaining[best], score: bestScore });
+    remaining.splice(best, 1);
+  }
+  return selected;
+}
+
+/**
+ * Reorder reranked documents with MMR and keep the Top K. Each result keeps
+ * its `_rerankScore` and gains the `_mmrScore` it was picked with.
+ */
+export async function diversifyWithMmr(
+  this: IExecuteFunctions,
+  results: any[],
+  texts: string[],
+  topK: number,
+  itemIndex: number,
+): Promise<any[]> {
+  if (results.length <= 1) {
+    return results.slice(0, topK);
+  }
+
+  const lambda = this.getNodeParameter('mmrLambda', itemIndex, 0.7) as number;
+  const method = this.getNodeParameter('mmrSimilarity', itemIndex, 'lexical') as string;
+
+  let similarity: (a: number, b: number) => number;
+  if (method === 'embeddings') {
+    const embeddings = await requestEmbeddings.call(
+      this,
+      this.getNodeParameter('mmrEmbeddingEndpoint', itemIndex) as string,
+      this.getNodeParameter('mmrEmbeddingModel', itemIndex) as string,
+      texts,
+      await getOptionalBearerHeaders.call(this),
+    );
+    similarity = (a, b) => cosineSimilarity(embeddings[a], embeddings[b]);
+  } else {
+    const counts = texts.map(termCounts);
+    similarity = (a, b) => lexicalSimilarity(counts[a], counts[b]);
+  }
+
+  return selectWithMmr(results.map((doc) => doc._rerankScore), similarity, topK, lambda).map(
+    ({ index, score }) => ({ ...results[index], _mmrScore: score }),
+  );
+}
@@ -0,0 +1,138 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { signAwsRequest } from '../aws.helpers';
+import type { RerankProvider } from './provider.types';
+
+function getBedrockModel(this: IExecuteFunctions, itemIndex: number): string {
+  const bedrockModel = this.getNodeParameter('bedrockModel', itemIndex) as string;
+  return bedrockModel === 'custom'
+    ? this.getNodeParameter('bedrockCustomModel', itemIndex) as string
+    : bedrockModel;
+}
+
+// Model IDs are turned into foundation model ARNs for the credential's region;
+// full ARNs (e.g. provisioned or cross-account models) are used as they are
+function getModelArn(model: string, region: string): string {
+  return model.startsWith('arn:') ? model : `arn:aws:bedrock:${region}::foundation-model/${model}`;
+}
+
+export const bedrockProvider: RerankProvider = {
+  id: 'bedrock',
+  name: 'AWS Bedrock',
+  description: 'Use the Bedrock Agent Runtime Rerank API with AWS credentials',
+  credentials: [
+    {
+      name: 'aws',
+      required: true,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Model',
+      name: 'bedrockModel',
+      type: 'options',
+      options: [
+        {
+          name: 'Amazon Rerank 1.0',
+          value: 'amazon.rerank-v1:0',
+        },
+        {
+          name: 'Cohere Rerank 3.5',
+          value: 'cohere.rerank-v3-5:0',
+        },
+        {
+          name: 'Custom',
+          value: 'custom',
+        },
+      ],
+      default: 'amazon.rerank-v1:0',
+      description: 'The Bedrock reranking model to use',
+    },
+    {
+      displayName: 'Custom Model ID or ARN',
+      name: 'bedrockCustomModel',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g. arn:aws:bedrock:us-west-2::foundation-model/amazon.rerank-v1:0',
+      description: 'Model ID or full model ARN to use for reranking',
+      displayOptions: {
+        show: {
+          bedrockModel: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Endpoint',
+      name: 'bedrockEndpoint',
+      type: 'string',
+      default: '',
+      placeholder: 'https://bedrock-agent-runtime.us-east-1.amazonaws.com/rerank',
+      description: 'Override the Rerank API URL, e.g. for a VPC endpoint or a local stand-in. Leave empty to use the regional endpoint of the credential.',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const endpoint = this.getNodeParameter('bedrockEndpoint', itemIndex, '') as string;
+    return `bedrock:${endpoint}:${getBedrockModel.call(this, itemIndex)}`;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    const credentials = await this.getCredentials('aws');
+    const region = (credentials.region as string) || 'us-east-1';
+    const endpoint = (this.getNodeParameter('bedrockEndpoint', itemIndex, '') as string)
+      || `https://bedrock-agent-runtime.${region}.amazonaws.com/rerank`;
+
+    // Serialized once so the signed payload hash matches what is sent
+    const body = JSON.stringify({
+      queries: [{ type: 'TEXT', textQuery: { text: query } }],
+      sources: documentTexts.map((text) => ({
+        type: 'INLINE',
+        inlineDocumentSource: { type: 'TEXT', textDocument: { text } },
+      })),
+      rerankingConfiguration: {
+        type: 'BEDROCK_RERANKING_MODEL',
+        bedrockRerankingConfiguration: {
+          numberOfResults: Math.min(topK, docs.length),
+          modelConfiguration: {
+            modelArn: getModelArn(getBedrockModel.call(this, itemIndex), region),
+          },
+        },
+      },
+    });
+
+    const headers = signAwsRequest({
+      method: 'POST',
+      url: endpoint,
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json',
+      },
+      body,
+      region,
+      service: 'bedrock',
+      credentials: {
+        accessKeyId: credentials.accessKeyId as string,
+        secretAccessKey: credentials.secretAccessKey as string,
+        sessionToken: credentials.temporaryCredentials ? credentials.sessionToken as string : undefined,
+      },
+    });
+
+    return {
+      method: 'POST',
+      url: endpoint,
+      headers,
+      body,
+      json: true,
+    };
+  },
+
+  parseResponse(response) {
+    const results = response?.results;
+    if (!Array.isArray(results)) {
+      return results;
+    }
+    return results.map((result: any) => ({
+      index: result.index,
+      relevance_score: result.relevanceScore,
+    }));
+  },
+};
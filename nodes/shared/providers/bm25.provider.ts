@@ -0,0 +1,91 @@
+import type { RawRerankResult, RerankProvider } from './provider.types';
+import { selectTopResults } from './provider.utils';
+import { tokenize } from '../text.utils';
+
+/**
+ * Okapi BM25 with IDF computed over the candidate set itself, using the
+ * non-negative IDF variant from Lucene.
+ */
+function scoreBm25(query: string, documentTexts: string[], k1: number, b: number): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const documents = documentTexts.map((text) => tokenize(text));
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / (documents.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return documents.map((terms) => {
+    const termFrequency = new Map<string, number>();
+    for (const term of terms) {
+      termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFrequency.get(term) ?? 0;
+      if (!tf) {
+        continue;
+      }
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const lengthNorm = averageLength ? terms.length / averageLength : 0;
+      score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + b * lengthNorm)));
+    }
+    return score;
+  });
+}
+
+export const bm25Provider: RerankProvider = {
+  id: 'bm25',
+  name: 'BM25 (Local)',
+  description: 'Score documents locally by keyword relevance, without any network access',
+  properties: [
+    {
+      displayName: 'K1',
+      name: 'bm25K1',
+      type: 'number',
+      default: 1.2,
+      description: 'Term frequency saturation. Higher values let repeated query terms count for more.',
+      typeOptions: {
+        minValue: 0,
+        numberPrecision: 2,
+      },
+    },
+    {
+      displayName: 'B',
+      name: 'bm25B',
+      type: 'number',
+      default: 0.75,
+      description: 'Document length normalization, from 0 (none) to 1 (full)',
+      typeOptions: {
+        minValue: 0,
+        maxValue: 1,
+        numberPrecision: 2,
+      },
+    },
+  ],
+
+  // IDF and document length are computed over the documents of the call
+  relativeScores: true,
+
+  getCacheNamespace(itemIndex) {
+    const k1 = this.getNodeParameter('bm25K1', itemIndex, 1.2) as number;
+    const b = this.getNodeParameter('bm25B', itemIndex, 0.75) as number;
+    return `bm25:${k1}:${b}`;
+  },
+
+  async score({ query, documentTexts, topK, itemIndex }) {
+    const k1 = this.getNodeParameter('bm25K1', itemIndex, 1.2) as number;
+    const b = this.getNodeParameter('bm25B', itemIndex, 0.75) as number;
+
+    const results: RawRerankResult[] = scoreBm25(query, documentTexts, k1, b).map((score, index) => ({
+      index,
+      relevance_score: score,
+    }));
+    return selectTopResults(results, topK);
+  },
+};
@@ -0,0 +1,215 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { RerankProvider } from './provider.types';
+import { getValueAtPath, parseFieldList } from './provider.utils';
+
+const DEFAULT_BASE_URL = 'https://api.cohere.ai';
+
+function toYamlValue(value: any): string {
+  if (typeof value === 'string') {
+    if (value.includes('\n')) {
+      return `|\n${value.split('\n').map((line) => `  ${line}`).join('\n')}`;
+    }
+    // Plain scalars when safe; double-quoted JSON strings are valid YAML for the rest
+    return /^\w[\w .,;!?()'-]*$/.test(value) && value.trim() === value ? value : JSON.stringify(value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Cohere recommends YAML strings for semi-structured documents, with the
+ * fields in order of importance since long documents are truncated.
+ */
+function toYamlDocument(doc: any, fields: string[]): string {
+  return fields
+    .map((field) => ({ field, value: getValueAtPath(doc, field) }))
+    .filter(({ value }) => value !== undefined && value !== null)
+    .map(({ field, value }) => `${field}: ${toYamlValue(value)}`)
+    .join('\n');
+}
+
+function getCohereModel(this: IExecuteFunctions, itemIndex: number): string {
+  const cohereModel = this.getNodeParameter('cohereModel', itemIndex) as string;
+  return cohereModel === 'custom'
+    ? this.getNodeParameter('cohereCustomModel', itemIndex) as string
+    : cohereModel;
+}
+
+export const cohereProvider: RerankProvider = {
+  id: 'cohere',
+  name: 'Cohere',
+  description: 'Use Cohere rerank API',
+  credentials: [
+    {
+      name: 'cohereApi',
+      required: false,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Model',
+      name: 'cohereModel',
+      type: 'options',
+      options: [
+        {
+          name: 'rerank-v3.5',
+          value: 'rerank-v3.5',
+        },
+        {
+          name: 'rerank-english-v3.0',
+          value: 'rerank-english-v3.0',
+        },
+        {
+          name: 'rerank-multilingual-v3.0',
+          value: 'rerank-multilingual-v3.0',
+        },
+        {
+          name: 'Custom',
+          value: 'custom',
+        },
+      ],
+      default: 'rerank-v3.5',
+      description: 'The Cohere model to use for reranking',
+    },
+    {
+      displayName: 'Custom Model Name',
+      name: 'cohereCustomModel',
+      type: 'string',
+      default: '',
+      placeholder: 'Enter custom Cohere model name',
+      description: 'Custom Cohere model name to use for reranking',
+      displayOptions: {
+        show: {
+          cohereModel: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'API Version',
+      name: 'cohereApiVersion',
+      type: 'options',
+      options: [
+        {
+          name: 'V1',
+          value: 'v1',
+        },
+        {
+          name: 'V2',
+          value: 'v2',
+          description: 'Required for max_tokens_per_doc and newer rerank-v3.5 features',
+        },
+      ],
+      default: 'v1',
+      description: 'Which version of the Cohere rerank endpoint to call',
+    },
+    {
+      displayName: 'Base URL',
+      name: 'cohereBaseUrl',
+      type: 'string',
+      default: DEFAULT_BASE_URL,
+      description: 'Base URL of the Cohere API. Change it for Cohere deployments on Azure or private clouds; /v1/rerank or /v2/rerank is appended.',
+    },
+    {
+      displayName: 'Max Tokens Per Document',
+      name: 'cohereMaxTokensPerDoc',
+      type: 'number',
+      default: 4096,
+      description: 'Long documents are truncated to this many tokens',
+      typeOptions: {
+        minValue: 1,
+      },
+      displayOptions: {
+        show: {
+          cohereApiVersion: ['v2'],
+        },
+      },
+    },
+    {
+      displayName: 'Document Format',
+      name: 'cohereDocumentFormat',
+      type: 'options',
+      options: [
+        {
+          name: 'Text',
+          value: 'text',
+          description: 'Send the document text',
+        },
+        {
+          name: 'YAML From Fields',
+          value: 'yaml',
+          description: 'Send selected fields as a YAML string, as Cohere recommends for structured data',
+        },
+      ],
+      default: 'text',
+      description: 'How documents are sent to Cohere',
+    },
+    {
+      displayName: 'Fields',
+      name: 'cohereYamlFields',
+      type: 'string',
+      default: 'metadata.title, pageContent',
+      description: 'Comma-separated document fields to include, most important first. Nested fields use dot notation.',
+      displayOptions: {
+        show: {
+          cohereDocumentFormat: ['yaml'],
+        },
+      },
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const namespace = `cohere:${getCohereModel.call(this, itemIndex)}`;
+    const baseUrl = this.getNodeParameter('cohereBaseUrl', itemIndex, DEFAULT_BASE_URL) as string;
+    const apiVersion = this.getNodeParameter('cohereApiVersion', itemIndex, 'v1') as string;
+    const maxTokensPerDoc = this.getNodeParameter('cohereMaxTokensPerDoc', itemIndex, 4096) as number;
+    const documentFormat = this.getNodeParameter('cohereDocumentFormat', itemIndex, 'text') as string;
+    const yamlFields = this.getNodeParameter('cohereYamlFields', itemIndex, '') as string;
+    return `${namespace}:${baseUrl}:${apiVersion}:${maxTokensPerDoc}:${documentFormat}:${yamlFields}`;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    // Prefer the official Cohere credential if available; fallback to legacy custom credential
+    let credentials: any;
+    try {
+      credentials = await this.getCredentials('cohereApi');
+    } catch (e) {
+      credentials = await this.getCredentials('cohereRerankerApi');
+    }
+
+    const baseUrl = (this.getNodeParameter('cohereBaseUrl', itemIndex, DEFAULT_BASE_URL) as string || DEFAULT_BASE_URL)
+      .replace(/\/+$/, '');
+    const apiVersion = this.getNodeParameter('cohereApiVersion', itemIndex, 'v1') as string;
+    const documentFormat = this.getNodeParameter('cohereDocumentFormat', itemIndex, 'text') as string;
+
+    let documents = documentTexts;
+    if (documentFormat === 'yaml') {
+      const fields = parseFieldList(this.getNodeParameter('cohereYamlFields', itemIndex, '') as string);
+      documents = docs.map((doc, i) => toYamlDocument(doc, fields) || documentTexts[i]);
+    }
+
+    const body: Record<string, any> = {
+      model: getCohereModel.call(this, itemIndex),
+      query,
+      documents,
+      top_n: Math.min(topK, docs.length),
+    };
+    if (apiVersion === 'v2') {
+      body.max_tokens_per_doc = this.getNodeParameter('cohereMaxTokensPerDoc', itemIndex, 4096) as number;
+    }
+
+    return {
+      method: 'POST',
+      url: `${baseUrl}/${apiVersion === 'v2' ? 'v2' : 'v1'}/rerank`,
+      headers: {
+        Authorization: `Bearer ${credentials.apiKey}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body,
+      json: true,
+    };
+  },
+
+  parseResponse(response) {
+    return response?.results;
+  },
+};
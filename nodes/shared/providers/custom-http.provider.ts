@@ -0,0 +1,178 @@
+import { IDataObject, IExecuteFunctions, NodeOperationError, jsonParse } from 'n8n-workflow';
+import type { RerankProvider } from './provider.types';
+import { getOptionalBearerHeaders, selectTopResults } from './provider.utils';
+
+const DEFAULT_BODY_TEMPLATE = `{
+  "model": "my-reranker",
+  "query": "{{query}}",
+  "documents": "{{documents}}",
+  "top_n": "{{topN}}"
+}`;
+
+/**
+ * Resolve a JSONPath-style expression such as `$.results`, `data[0].items` or
+ * `scores['relevance']`. `$` (or an empty path) is the value itself.
+ */
+function getPath(value: any, path: string): any {
+  const segments = String(path ?? '')
+    .trim()
+    .replace(/^\$\.?/, '')
+    .replace(/\[['"]?([^\]'"]+)['"]?\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+
+  return segments.reduce((current, segment) => (current == null ? undefined : current[segment]), value);
+}
+
+/**
+ * Fill the body template: a string that is exactly `{{documents}}` or
+ * `{{topN}}` becomes the array/number itself, and `{{query}}` is interpolated
+ * wherever it appears.
+ */
+function fillTemplate(value: any, query: string, documents: string[], topN: number): any {
+  if (typeof value === 'string') {
+    const placeholder = value.trim();
+    if (placeholder === '{{documents}}') {
+      return documents;
+    }
+    if (placeholder === '{{topN}}') {
+      return topN;
+    }
+    return value.replace(/\{\{query\}\}/g, query);
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => fillTemplate(entry, query, documents, topN));
+  }
+  if (value && typeof value === 'object') {
+    const filled: IDataObject = {};
+    for (const [key, entry] of Object.entries(value)) {
+      filled[key] = fillTemplate(entry, query, documents, topN);
+    }
+    return filled;
+  }
+  return value;
+}
+
+function parseJsonParameter(this: IExecuteFunctions, name: string, itemIndex: number, fallback: string): any {
+  const value = this.getNodeParameter(name, itemIndex, fallback) as string | IDataObject;
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return jsonParse(value);
+  } catch (e) {
+    throw new NodeOperationError(this.getNode(), `Invalid JSON in parameter "${name}"`, { itemIndex });
+  }
+}
+
+export const customHttpProvider: RerankProvider = {
+  id: 'custom-http',
+  name: 'Custom HTTP',
+  description: 'Any rerank API, with a configurable request body and response mapping',
+  credentials: [
+    {
+      name: 'openAiApi',
+      required: false,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Endpoint',
+      name: 'customEndpoint',
+      type: 'string',
+      default: '',
+      required: true,
+      placeholder: 'https://reranker.internal/api/rank',
+      description: 'The URL the request body is POSTed to. If a credential is set, its API key is sent as a bearer token.',
+    },
+    {
+      displayName: 'Headers',
+      name: 'customHeaders',
+      type: 'json',
+      default: '{}',
+      description: 'Additional request headers as a JSON object',
+    },
+    {
+      displayName: 'Request Body Template',
+      name: 'customBodyTemplate',
+      type: 'json',
+      default: DEFAULT_BODY_TEMPLATE,
+      description: 'JSON body to send. Use "{{documents}}" for the array of document texts, "{{topN}}" for the number of results and {{query}} anywhere inside a string for the query.',
+      typeOptions: {
+        rows: 6,
+      },
+    },
+    {
+      displayName: 'Results Path',
+      name: 'customResultsPath',
+      type: 'string',
+      default: '$.results',
+      description: 'Where the array of results is in the response, e.g. $.results, $.data or $ for a bare array',
+    },
+    {
+      displayName: 'Index Field',
+      name: 'customIndexField',
+      type: 'string',
+      default: 'index',
+      description: 'Field of each result holding the position of the document in the request. Leave empty if results are returned in request order.',
+    },
+    {
+      displayName: 'Score Field',
+      name: 'customScoreField',
+      type: 'string',
+      default: 'relevance_score',
+      description: 'Field of each result holding the relevance score, e.g. relevance_score or scores.relevance',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const endpoint = this.getNodeParameter('customEndpoint', itemIndex) as string;
+    const template = this.getNodeParameter('customBodyTemplate', itemIndex, DEFAULT_BODY_TEMPLATE);
+    const resultsPath = this.getNodeParameter('customResultsPath', itemIndex, '$.results') as string;
+    const indexField = this.getNodeParameter('customIndexField', itemIndex, 'index') as string;
+    const scoreField = this.getNodeParameter('customScoreField', itemIndex, 'relevance_score') as string;
+    return `custom-http:${endpoint}:${JSON.stringify(template)}:${resultsPath}:${indexField}:${scoreField}`;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    const template = parseJsonParameter.call(this, 'customBodyTemplate', itemIndex, DEFAULT_BODY_TEMPLATE);
+    const customHeaders = parseJsonParameter.call(this, 'customHeaders', itemIndex, '{}');
+
+    return {
+      method: 'POST',
+      url: this.getNodeParameter('customEndpoint', itemIndex) as string,
+      headers: {
+        ...(await getOptionalBearerHeaders.call(this)),
+        ...customHeaders,
+      },
+      body: fillTemplate(template, query, documentTexts, Math.min(topK, docs.length)),
+      json: true,
+    };
+  },
+
+  parseResponse(response, { topK, itemIndex }) {
+    const resultsPath = this.getNodeParameter('customResultsPath', itemIndex, '$.results') as string;
+    const indexField = this.getNodeParameter('customIndexField', itemIndex, 'index') as string;
+    const scoreField = this.getNodeParameter('customScoreField', itemIndex, 'relevance_score') as string;
+
+    const results = getPath(response, resultsPath);
+    if (!Array.isArray(results)) {
+      return results;
+    }
+
+    return selectTopResults(
+      results.map((result: any, position: number) => {
+        const index = indexField ? Number(getPath(result, indexField) ?? NaN) : position;
+        if (!Number.isInteger(index)) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `Response result ${position} has no document index in field "${indexField}"`,
+            { itemIndex },
+          );
+        }
+        return { index, relevance_score: Number(getPath(result, scoreField)) };
+      }),
+      topK,
+    );
+  },
+};
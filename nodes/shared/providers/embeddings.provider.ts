@@ -0,0 +1,80 @@
+import type { RerankProvider } from './provider.types';
+import { getOptionalBearerHeaders, selectTopResults } from './provider.utils';
+import { cosineSimilarity, requestEmbeddings } from '../embedding.helpers';
+
+export const embeddingsProvider: RerankProvider = {
+  id: 'embeddings',
+  name: 'Embedding Similarity',
+  description: 'Rank by cosine similarity using any OpenAI-compatible /embeddings endpoint',
+  credentials: [
+    {
+      name: 'openAiApi',
+      required: false,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Endpoint',
+      name: 'embeddingEndpoint',
+      type: 'string',
+      default: 'http://localhost:11434/v1/embeddings',
+      description: 'The embeddings endpoint URL',
+      hint: 'Example: http://localhost:11434/v1/embeddings. If a credential is set, its API key is sent as a bearer token.',
+    },
+    {
+      displayName: 'Model',
+      name: 'embeddingModel',
+      type: 'string',
+      default: '',
+      required: true,
+      placeholder: 'e.g. BAAI/bge-m3',
+      description: 'The embedding model to use',
+    },
+    {
+      displayName: 'Query Prefix',
+      name: 'embeddingQueryPrefix',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g. query: ',
+      description: 'Text to add before the query, for models trained with instructions such as E5 or BGE',
+    },
+    {
+      displayName: 'Document Prefix',
+      name: 'embeddingDocumentPrefix',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g. passage: ',
+      description: 'Text to add before each document, for models trained with instructions such as E5',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const endpoint = this.getNodeParameter('embeddingEndpoint', itemIndex) as string;
+    const model = this.getNodeParameter('embeddingModel', itemIndex) as string;
+    const queryPrefix = this.getNodeParameter('embeddingQueryPrefix', itemIndex, '') as string;
+    const documentPrefix = this.getNodeParameter('embeddingDocumentPrefix', itemIndex, '') as string;
+    return `embeddings:${endpoint}:${model}:${queryPrefix}:${documentPrefix}`;
+  },
+
+  // Query and documents are embedded in one request; the query comes first
+  async score({ query, documentTexts, topK, itemIndex }) {
+    const endpoint = this.getNodeParameter('embeddingEndpoint', itemIndex) as string;
+    const model = this.getNodeParameter('embeddingModel', itemIndex) as string;
+    const queryPrefix = this.getNodeParameter('embeddingQueryPrefix', itemIndex, '') as string;
+    const documentPrefix = this.getNodeParameter('embeddingDocumentPrefix', itemIndex, '') as string;
+
+    const [queryEmbedding, ...documentEmbeddings] = await requestEmbeddings.call(
+      this,
+      endpoint,
+      model,
+      [`${queryPrefix}${query}`, ...documentTexts.map((doc) => `${documentPrefix}${doc}`)],
+      await getOptionalBearerHeaders.call(this),
+    );
+
+    const results = documentEmbeddings.map((embedding, index) => ({
+      index,
+      relevance_score: cosineSimilarity(queryEmbedding, embedding),
+    }));
+    return selectTopResults(results, topK);
+  },
+};
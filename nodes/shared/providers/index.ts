@@ -0,0 +1,112 @@
+import type { INodeCredentialDescription, INodeProperties, INodePropertyOptions } from 'n8n-workflow';
+import type { RerankProvider } from './provider.types';
+import { openAiCompatibleProvider } from './openai-compatible.provider';
+import { cohereProvider } from './cohere.provider';
+import { jinaProvider } from './jina.provider';
+import { voyageProvider } from './voyage.provider';
+import { teiProvider } from './tei.provider';
+import { llmProvider } from './llm.provider';
+import { bm25Provider } from './bm25.provider';
+import { embeddingsProvider } from './embeddings.provider';
+import { customHttpProvider } from './custom-http.provider';
+import { bedrockProvider } from './bedrock.provider';
+import { vertexProvider } from './vertex.provider';
+import { nimProvider } from './nim.provider';
+import { pineconeProvider } from './pinecone.provider';
+import { mixedbreadProvider } from './mixedbread.provider';
+
+export type { RerankProvider, RerankRequestContext, RawRerankResult } from './provider.types';
+
+const providers = new Map<string, RerankProvider>();
+
+export function registerRerankProvider(provider: RerankProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getRerankProvider(id: string): RerankProvider | undefined {
+  return providers.get(id);
+}
+
+export function getRerankProviders(): RerankProvider[] {
+  return Array.from(providers.values());
+}
+
+// Multi-service strategies pick services with their own parameter and show
+// the parameters of every selected provider
+const multiServiceSelectors = [
+  { strategy: 'fusion', parameter: 'fusionServices' },
+  { strategy: 'cascade', parameter: 'cascadeFirstService' },
+  { strategy: 'cascade', parameter: 'cascadeSecondService' },
+  { strategy: 'fallback', parameter: 'fallbackServices' },
+];
+const multiServiceStrategies = Array.from(new Set(multiServiceSelectors.map(({ strategy }) => strategy)));
+
+// Scope a provider's parameters to its own service selection, keeping any
+// additional conditions the provider already declared
+function showForService<T extends { displayOptions?: INodeProperties['displayOptions'] }>(
+  id: string,
+  entry: T,
+): T[] {
+  return [
+    {
+      ...entry,
+      displayOptions: {
+        ...entry.displayOptions,
+        show: {
+          service: [id],
+          ...entry.displayOptions?.show,
+        },
+        hide: {
+          ...entry.displayOptions?.hide,
+          strategy: multiServiceStrategies,
+        },
+      },
+    },
+    ...multiServiceSelectors.map(({ strategy, parameter }) => ({
+      ...entry,
+      displayOptions: {
+        ...entry.displayOptions,
+        show: {
+          strategy: [strategy],
+          [parameter]: [id],
+          ...entry.displayOptions?.show,
+        },
+      },
+    })),
+  ];
+}
+
+export function getServiceOptions(): INodePropertyOptions[] {
+  return getRerankProviders().map((provider) => ({
+    name: provider.name,
+    value: provider.id,
+    description: provider.description,
+  }));
+}
+
+export function getServiceProperties(): INodeProperties[] {
+  return getRerankProviders().flatMap((provider) =>
+    provider.properties.flatMap((property) => showForService(provider.id, property)),
+  );
+}
+
+export function getServiceCredentials(): INodeCredentialDescription[] {
+  return getRerankProviders().flatMap((provider) =>
+    (provider.credentials ?? []).flatMap((credential) => showForService(provider.id, credential)),
+  );
+}
+
+registerRerankProvider(openAiCompatibleProvider);
+registerRerankProvider(cohereProvider);
+registerRerankProvider(jinaProvider);
+registerRerankProvider(voyageProvider);
+registerRerankProvider(teiProvider);
+registerRerankProvider(llmProvider);
+registerRerankProvider(bm25Provider);
+registerRerankProvider(embeddingsProvider);
+registerRerankProvider(customHttpProvider);
+registerRerankProvider(bedrockProvider);
+registerRerankProvider(vertexProvider);
+registerRerankProvider(nimProvider);
+registerRerankProvider(pineconeProvider);
+registerRerankProvider(mixedbreadProvider);
@@ -0,0 +1,104 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { RerankProvider } from './provider.types';
+
+function getJinaModel(this: IExecuteFunctions, itemIndex: number): string {
+  const jinaModel = this.getNodeParameter('jinaModel', itemIndex) as string;
+  return jinaModel === 'custom'
+    ? this.getNodeParameter('jinaCustomModel', itemIndex) as string
+    : jinaModel;
+}
+
+export const jinaProvider: RerankProvider = {
+  id: 'jina',
+  name: 'Jina AI',
+  description: 'Use Jina AI rerank API',
+  credentials: [
+    {
+      name: 'jinaRerankerApi',
+      required: true,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Model',
+      name: 'jinaModel',
+      type: 'options',
+      options: [
+        {
+          name: 'jina-reranker-v2-base-multilingual',
+          value: 'jina-reranker-v2-base-multilingual',
+        },
+        {
+          name: 'jina-reranker-m0',
+          value: 'jina-reranker-m0',
+        },
+        {
+          name: 'jina-colbert-v2',
+          value: 'jina-colbert-v2',
+        },
+        {
+          name: 'Custom',
+          value: 'custom',
+        },
+      ],
+      default: 'jina-reranker-v2-base-multilingual',
+      description: 'The Jina AI model to use for reranking',
+    },
+    {
+      displayName: 'Custom Model Name',
+      name: 'jinaCustomModel',
+      type: 'string',
+      default: '',
+      placeholder: 'Enter custom Jina AI model name',
+      description: 'Custom Jina AI model name to use for reranking',
+      displayOptions: {
+        show: {
+          jinaModel: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Return Documents',
+      name: 'jinaReturnDocuments',
+      type: 'boolean',
+      default: false,
+      description: 'Whether Jina should echo the document text back. The returned text is added to each result as _returnedDocument.',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const returnDocuments = this.getNodeParameter('jinaReturnDocuments', itemIndex, false) as boolean;
+    return `jina:${getJinaModel.call(this, itemIndex)}:${returnDocuments}`;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    const credentials = await this.getCredentials('jinaRerankerApi');
+
+    return {
+      method: 'POST',
+      url: 'https://api.jina.ai/v1/rerank',
+      headers: {
+        Authorization: `Bearer ${credentials.apiKey}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: {
+        model: getJinaModel.call(this, itemIndex),
+        query,
+        documents: documentTexts,
+        top_n: Math.min(topK, docs.length),
+        return_documents: this.getNodeParameter('jinaReturnDocuments', itemIndex, false) as boolean,
+      },
+      json: true,
+    };
+  },
+
+  // Jina returns { index, relevance_score, document?: { text } }
+  parseResponse(response) {
+    return response?.results?.map((r: any) => ({
+      index: r.index,
+      relevance_score: r.relevance_score,
+      document: r.document?.text ?? r.document,
+    }));
+  },
+};
@@ -0,0 +1,325 @@
+import type { IExecuteFunctions, IHttpRequestOptions } from 'n8n-workflow';
+import type { RawRerankResult, RerankProvider, RerankRequestContext } from './provider.types';
+import { getOptionalBearerHeaders, selectTopResults } from './provider.utils';
+
+const DEFAULT_POINTWISE_PROMPT =
+  'Judge whether the Document meets the requirements based on the Query provided. Note that the answer can only be "yes" or "no".';
+const DEFAULT_LISTWISE_PROMPT =
+  'You are RankGPT, an intelligent assistant that can rank passages based on their relevancy to the query.';
+
+function normalizeToken(token: string): string {
+  return String(token ?? '').trim().toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Relevance from the first generated token: P(yes) / (P(yes) + P(no)) over the
+ * top logprobs, falling back to the sampled token (and to the plain answer text
+ * for servers that do not return logprobs at all).
+ */
+function scoreYesNoAnswer(choice: any): number {
+  const first = choice?.logprobs?.content?.[0];
+
+  if (first) {
+    let yes = 0;
+    let no = 0;
+    for (const candidate of first.top_logprobs ?? []) {
+      const token = normalizeToken(candidate.token);
+      if (token === 'yes') {
+        yes += Math.exp(candidate.logprob);
+      } else if (token === 'no') {
+        no += Math.exp(candidate.logprob);
+      }
+    }
+    if (yes + no > 0) {
+      return yes / (yes + no);
+    }
+
+    const sampled = normalizeToken(first.token);
+    if (sampled === 'yes') {
+      return Math.exp(first.logprob);
+    }
+    if (sampled === 'no') {
+      return 1 - Math.exp(first.logprob);
+    }
+  }
+
+  return normalizeToken(choice?.message?.content).startsWith('yes') ? 1 : 0;
+}
+
+/**
+ * Read a permutation such as "[2] > [3] > [1]" back into window positions.
+ * Unknown or repeated identifiers are ignored and anything the model left out
+ * keeps its previous relative order at the end.
+ */
+function parsePermutation(content: string, windowLength: number): number[] {
+  const order: number[] = [];
+  for (const match of String(content ?? '').match(/\d+/g) ?? []) {
+    const position = parseInt(match, 10) - 1;
+    if (position >= 0 && position < windowLength && !order.includes(position)) {
+      order.push(position);
+    }
+  }
+  for (let position = 0; position < windowLength; position++) {
+    if (!order.includes(position)) {
+      order.push(position);
+    }
+  }
+  return order;
+}
+
+function buildListwisePrompt(query: string, passages: string[]): string {
+  const numbered = passages.map((passage, i) => `[${i + 1}] ${passage}`).join('\n');
+  return (
+    `I will provide you with ${passages.length} passages, each indicated by a numerical identifier []. ` +
+    `Rank the passages based on their relevance to the search query: ${query}.\n\n` +
+    `${numbered}\n\n` +
+    `Search Query: ${query}.\n` +
+    `Rank the ${passages.length} passages above based on their relevance to the search query. ` +
+    'List them in descending order using identifiers, most relevant first. ' +
+    'The output format should be [] > [], e.g., [2] > [1]. Only respond with the ranking, do not explain.'
+  );
+}
+
+async function scorePointwise(
+  this: IExecuteFunctions,
+  { query, documentTexts, topK, itemIndex }: RerankRequestContext,
+): Promise<RawRerankResult[]> {
+  const endpoint = this.getNodeParameter('llmEndpoint', itemIndex) as string;
+  const model = this.getNodeParameter('llmModel', itemIndex) as string;
+  const prompt = this.getNodeParameter('llmPrompt', itemIndex, DEFAULT_POINTWISE_PROMPT) as string;
+  const concurrency = Math.max(1, this.getNodeParameter('llmConcurrency', itemIndex, 4) as number);
+  const headers = await getOptionalBearerHeaders.call(this);
+
+  const results: RawRerankResult[] = [];
+  for (let start = 0; start < documentTexts.length; start += concurrency) {
+    const batch = documentTexts.slice(start, start + concurrency);
+    const scores = await Promise.all(
+      batch.map(async (doc) => {
+        const request: IHttpRequestOptions = {
+          method: 'POST',
+          url: endpoint,
+          headers,
+          body: {
+            model,
+            messages: [
+              { role: 'system', content: prompt },
+              { role: 'user', content: `<Query>: ${query}\n<Document>: ${doc}` },
+            ],
+            max_tokens: 1,
+            temperature: 0,
+            logprobs: true,
+            top_logprobs: 5,
+          },
+          json: true,
+        };
+        const response = await this.helpers.httpRequest(request);
+        return scoreYesNoAnswer(response?.choices?.[0]);
+      }),
+    );
+    scores.forEach((score, offset) => results.push({ index: start + offset, relevance_score: score }));
+  }
+
+  return selectTopResults(results, topK);
+}
+
+/**
+ * RankGPT-style sliding window: rank the last window first, then move towards
+ * the top of the list so relevant documents bubble up across windows.
+ */
+async function scoreListwise(
+  this: IExecuteFunctions,
+  { query, documentTexts, topK, itemIndex }: RerankRequestContext,
+): Promise<RawRerankResult[]> {
+  const endpoint = this.getNodeParameter('llmEndpoint', itemIndex) as string;
+  const model = this.getNodeParameter('llmModel', itemIndex) as string;
+  const prompt = this.getNodeParameter('llmListwisePrompt', itemIndex, DEFAULT_LISTWISE_PROMPT) as string;
+  const windowSize = Math.max(2, this.getNodeParameter('llmWindowSize', itemIndex, 20) as number);
+  const stepSize = Math.max(1, Math.min(windowSize, this.getNodeParameter('llmStepSize', itemIndex, 10) as number));
+  const headers = await getOptionalBearerHeaders.call(this);
+
+  const ranking = documentTexts.map((_, index) => index);
+  let end = ranking.length;
+  while (end > 0) {
+    const start = Math.max(0, end - windowSize);
+    const window = ranking.slice(start, end);
+
+    if (window.length > 1) {
+      const response = await this.helpers.httpRequest({
+        method: 'POST',
+        url: endpoint,
+        headers,
+        body: {
+          model,
+          messages: [
+            { role: 'system', content: prompt },
+            { role: 'user', content: buildListwisePrompt(query, window.map((index) => documentTexts[index])) },
+          ],
+          temperature: 0,
+        },
+        json: true,
+      });
+      const order = parsePermutation(response?.choices?.[0]?.message?.content, window.length);
+      ranking.splice(start, window.length, ...order.map((position) => window[position]));
+    }
+
+    if (start === 0) {
+      break;
+    }
+    end -= stepSize;
+  }
+
+  // Rank-derived scores: 1 for the first document down to 1/n for the last
+  return ranking
+    .slice(0, topK)
+    .map((index, rank) => ({ index, relevance_score: (ranking.length - rank) / ranking.length }));
+}
+
+export const llmProvider: RerankProvider = {
+  id: 'llm',
+  name: 'LLM (Chat Completions)',
+  description: 'Use any OpenAI-compatible chat model (Ollama, llama.cpp server, vLLM) as a reranker',
+  credentials: [
+    {
+      name: 'openAiApi',
+      required: false,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Endpoint',
+      name: 'llmEndpoint',
+      type: 'string',
+      default: 'http://localhost:11434/v1/chat/completions',
+      description: 'The chat completions endpoint URL',
+      hint: 'Example: http://localhost:11434/v1/chat/completions. If a credential is set, its API key is sent as a bearer token.',
+    },
+    {
+      displayName: 'Model',
+      name: 'llmModel',
+      type: 'string',
+      default: '',
+      required: true,
+      placeholder: 'e.g. qwen2.5:7b-instruct',
+      description: 'The chat model to use for reranking',
+    },
+    {
+      displayName: 'Mode',
+      name: 'llmMode',
+      type: 'options',
+      options: [
+        {
+          name: 'Pointwise (Yes/No)',
+          value: 'pointwise',
+          description: 'Ask a yes/no relevance question per document and score by the probability of "yes"',
+        },
+        {
+          name: 'Listwise (Sliding Window)',
+          value: 'listwise',
+          description: 'Let the model order numbered windows of documents, RankGPT-style',
+        },
+      ],
+      default: 'pointwise',
+      description: 'How the chat model is used to rank documents',
+    },
+    {
+      displayName: 'Prompt',
+      name: 'llmPrompt',
+      type: 'string',
+      default: DEFAULT_POINTWISE_PROMPT,
+      description: 'System prompt asking the model to answer "yes" or "no" for each query/document pair. The score is the probability of "yes".',
+      typeOptions: {
+        rows: 3,
+      },
+      displayOptions: {
+        show: {
+          llmMode: ['pointwise'],
+        },
+      },
+    },
+    {
+      displayName: 'Concurrency',
+      name: 'llmConcurrency',
+      type: 'number',
+      default: 4,
+      description: 'How many documents to score in parallel',
+      typeOptions: {
+        minValue: 1,
+        maxValue: 32,
+      },
+      displayOptions: {
+        show: {
+          llmMode: ['pointwise'],
+        },
+      },
+    },
+    {
+      displayName: 'System Prompt',
+      name: 'llmListwisePrompt',
+      type: 'string',
+      default: DEFAULT_LISTWISE_PROMPT,
+      description: 'System prompt for the ranking conversation. The numbered documents and output format instructions are added automatically.',
+      typeOptions: {
+        rows: 2,
+      },
+      displayOptions: {
+        show: {
+          llmMode: ['listwise'],
+        },
+      },
+    },
+    {
+      displayName: 'Window Size',
+      name: 'llmWindowSize',
+      type: 'number',
+      default: 20,
+      description: 'How many documents the model ranks in one request',
+      typeOptions: {
+        minValue: 2,
+      },
+      displayOptions: {
+        show: {
+          llmMode: ['listwise'],
+        },
+      },
+    },
+    {
+      displayName: 'Step Size',
+      name: 'llmStepSize',
+      type: 'number',
+      default: 10,
+      description: 'How far the window moves towards the top of the list after each request. Smaller steps overlap more and cost more requests.',
+      typeOptions: {
+        minValue: 1,
+      },
+      displayOptions: {
+        show: {
+          llmMode: ['listwise'],
+        },
+      },
+    },
+  ],
+
+  // Listwise ranks are relative to the call; pointwise already sends one request per document
+  relativeScores: true,
+
+  getCacheNamespace(itemIndex) {
+    const endpoint = this.getNodeParameter('llmEndpoint', itemIndex) as string;
+    const model = this.getNodeParameter('llmModel', itemIndex) as string;
+    const mode = this.getNodeParameter('llmMode', itemIndex, 'pointwise') as string;
+    if (mode === 'listwise') {
+      const prompt = this.getNodeParameter('llmListwisePrompt', itemIndex, DEFAULT_LISTWISE_PROMPT) as string;
+      const windowSize = this.getNodeParameter('llmWindowSize', itemIndex, 20) as number;
+      const stepSize = this.getNodeParameter('llmStepSize', itemIndex, 10) as number;
+      return `llm:listwise:${endpoint}:${model}:${windowSize}:${stepSize}:${prompt}`;
+    }
+    const prompt = this.getNodeParameter('llmPrompt', itemIndex, DEFAULT_POINTWISE_PROMPT) as string;
+    return `llm:${endpoint}:${model}:${prompt}`;
+  },
+
+  async score(context) {
+    const mode = this.getNodeParameter('llmMode', context.itemIndex, 'pointwise') as string;
+    return mode === 'listwise'
+      ? scoreListwise.call(this, context)
+      : scorePointwise.call(this, context);
+  },
+};
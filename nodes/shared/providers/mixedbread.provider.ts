@@ -0,0 +1,120 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { RerankProvider } from './provider.types';
+import { buildFieldDocuments, parseFieldList } from './provider.utils';
+
+function getMixedbreadModel(this: IExecuteFunctions, itemIndex: number): string {
+  const mixedbreadModel = this.getNodeParameter('mixedbreadModel', itemIndex) as string;
+  return mixedbreadModel === 'custom'
+    ? this.getNodeParameter('mixedbreadCustomModel', itemIndex) as string
+    : mixedbreadModel;
+}
+
+export const mixedbreadProvider: RerankProvider = {
+  id: 'mixedbread',
+  name: 'Mixedbread',
+  description: 'Use the Mixedbread reranking API',
+  credentials: [
+    {
+      name: 'mixedbreadRerankerApi',
+      required: true,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Model',
+      name: 'mixedbreadModel',
+      type: 'options',
+      options: [
+        {
+          name: 'Custom',
+          value: 'custom',
+        },
+        {
+          name: 'mxbai-rerank-base-v1',
+          value: 'mixedbread-ai/mxbai-rerank-base-v1',
+        },
+        {
+          name: 'mxbai-rerank-base-v2',
+          value: 'mixedbread-ai/mxbai-rerank-base-v2',
+        },
+        {
+          name: 'mxbai-rerank-large-v1',
+          value: 'mixedbread-ai/mxbai-rerank-large-v1',
+        },
+        {
+          name: 'mxbai-rerank-large-v2',
+          value: 'mixedbread-ai/mxbai-rerank-large-v2',
+        },
+        {
+          name: 'mxbai-rerank-xsmall-v1',
+          value: 'mixedbread-ai/mxbai-rerank-xsmall-v1',
+        },
+      ],
+      default: 'mixedbread-ai/mxbai-rerank-large-v2',
+      description: 'The Mixedbread model to use for reranking',
+    },
+    {
+      displayName: 'Custom Model Name',
+      name: 'mixedbreadCustomModel',
+      type: 'string',
+      default: '',
+      placeholder: 'Enter custom Mixedbread model name',
+      description: 'Custom Mixedbread model name to use for reranking',
+      displayOptions: {
+        show: {
+          mixedbreadModel: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Rank Fields',
+      name: 'mixedbreadRankFields',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g. metadata.title, pageContent',
+      description: 'Comma-separated document fields to rank on, using dot notation for nested fields. Leave empty to rank the document text.',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const rankFields = this.getNodeParameter('mixedbreadRankFields', itemIndex, '') as string;
+    return `mixedbread:${getMixedbreadModel.call(this, itemIndex)}:${rankFields}`;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    const credentials = await this.getCredentials('mixedbreadRerankerApi');
+    const rankFields = parseFieldList(this.getNodeParameter('mixedbreadRankFields', itemIndex, '') as string);
+
+    const body: Record<string, any> = {
+      model: getMixedbreadModel.call(this, itemIndex),
+      query,
+      input: documentTexts,
+      top_k: Math.min(topK, docs.length),
+      return_input: false,
+    };
+    if (rankFields.length > 0) {
+      body.input = buildFieldDocuments(docs, documentTexts, rankFields);
+      body.rank_fields = rankFields;
+    }
+
+    return {
+      method: 'POST',
+      url: 'https://api.mixedbread.com/v1/reranking',
+      headers: {
+        Authorization: `Bearer ${credentials.apiKey}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body,
+      json: true,
+    };
+  },
+
+  // Mixedbread returns { data: [{ index, score, input? }] }
+  parseResponse(response) {
+    return response?.data?.map((r: any) => ({
+      index: r.index,
+      relevance_score: r.score,
+    }));
+  },
+};
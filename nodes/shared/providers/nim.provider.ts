@@ -0,0 +1,85 @@
+import type { RerankProvider } from './provider.types';
+import { getOptionalBearerHeaders, selectTopResults } from './provider.utils';
+import { sigmoid } from '../score.utils';
+
+export const nimProvider: RerankProvider = {
+  id: 'nim',
+  name: 'NVIDIA NIM',
+  description: 'Use an NVIDIA NIM reranking microservice or the NVIDIA API catalog',
+  credentials: [
+    {
+      name: 'openAiApi',
+      required: false,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Endpoint',
+      name: 'nimEndpoint',
+      type: 'string',
+      default: 'http://localhost:8000/v1/ranking',
+      description: 'The NIM ranking endpoint URL',
+      hint: 'Example: http://localhost:8000/v1/ranking. If a credential is set, its API key is sent as a bearer token.',
+    },
+    {
+      displayName: 'Model',
+      name: 'nimModel',
+      type: 'string',
+      default: 'nvidia/llama-3.2-nv-rerankqa-1b-v2',
+      description: 'The reranking model served by the NIM',
+    },
+    {
+      displayName: 'Truncate',
+      name: 'nimTruncate',
+      type: 'options',
+      options: [
+        {
+          name: 'End',
+          value: 'END',
+          description: 'Truncate passages longer than the model maximum from the end',
+        },
+        {
+          name: 'None',
+          value: 'NONE',
+          description: 'Return an error for passages longer than the model maximum',
+        },
+      ],
+      default: 'END',
+      description: 'How the NIM handles passages longer than the model maximum',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const endpoint = this.getNodeParameter('nimEndpoint', itemIndex) as string;
+    const model = this.getNodeParameter('nimModel', itemIndex) as string;
+    const truncate = this.getNodeParameter('nimTruncate', itemIndex, 'END') as string;
+    return `nim:${endpoint}:${model}:${truncate}`;
+  },
+
+  async buildRequest({ query, documentTexts, itemIndex }) {
+    return {
+      method: 'POST',
+      url: this.getNodeParameter('nimEndpoint', itemIndex) as string,
+      headers: await getOptionalBearerHeaders.call(this),
+      body: {
+        model: this.getNodeParameter('nimModel', itemIndex) as string,
+        query: { text: query },
+        passages: documentTexts.map((text) => ({ text })),
+        truncate: this.getNodeParameter('nimTruncate', itemIndex, 'END') as string,
+      },
+      json: true,
+    };
+  },
+
+  // NIM returns raw logits for every passage; map them to 0-1 so the threshold applies
+  parseResponse(response, { topK }) {
+    const rankings = response?.rankings;
+    if (!Array.isArray(rankings)) {
+      return rankings;
+    }
+    return selectTopResults(
+      rankings.map((ranking: any) => ({ index: ranking.index, relevance_score: sigmoid(ranking.logit) })),
+      topK,
+    );
+  },
+};
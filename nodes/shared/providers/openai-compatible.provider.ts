@@ -0,0 +1,288 @@
+import type { RerankProvider } from './provider.types';
+import { selectTopResults } from './provider.utils';
+
+const QWEN3_QUERY_PREFIX =
+  '<|im_start|>system\nJudge whether the Document meets the requirements based on the Query and the Instruct provided. Note that the answer can only be "yes" or "no".<|im_end|>\n<|im_start|>user\n';
+const QWEN3_DOCUMENT_SUFFIX = '<|im_end|>\n<|im_start|>assistant\n<think>\n\n</think>\n\n';
+
+export const openAiCompatibleProvider: RerankProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-Compatible',
+  description: 'Compatible with vLLM, LocalAI, Infinity, and other OpenAI-compatible endpoints',
+  credentials: [
+    {
+      name: 'openAiApi',
+      required: false,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Endpoint',
+      name: 'endpoint',
+      type: 'string',
+      default: 'http://localhost:8000/v1/rerank',
+      description: 'The reranking endpoint URL',
+      hint: 'Example: http://localhost:8000/v1/rerank (or http://localhost:8000/v1/score for the Score API)',
+    },
+    {
+      displayName: 'API Format',
+      name: 'apiFormat',
+      type: 'options',
+      options: [
+        {
+          name: 'Rerank API',
+          value: 'rerank',
+          description: 'Send query and documents to a /rerank endpoint',
+        },
+        {
+          name: 'Score API',
+          value: 'score',
+          description: 'Send query/document pairs to a vLLM /score endpoint, for deployments started with --task score',
+        },
+      ],
+      default: 'rerank',
+      description: 'Which request format the endpoint expects',
+    },
+    {
+      displayName: 'Model',
+      name: 'model',
+      type: 'string',
+      default: 'BAAI/bge-reranker-v2-m3',
+      description: 'The model to use for reranking',
+    },
+    {
+      displayName: 'Authentication Type',
+      name: 'authenticationType',
+      type: 'options',
+      options: [
+        {
+          name: 'Bearer Token',
+          value: 'bearer',
+          description: 'Send the API key as an Authorization bearer token',
+        },
+        {
+          name: 'API Key Header',
+          value: 'apiKey',
+          description: 'Send the API key in the api-key header for Azure AI Foundry and similar endpoints',
+        },
+        {
+          name: 'None',
+          value: 'none',
+          description: 'Do not send an authentication header',
+        },
+      ],
+      default: 'bearer',
+      description: 'How to authenticate requests to the OpenAI-compatible reranking endpoint',
+    },
+    {
+      displayName: 'Enable Custom Templates',
+      name: 'enableCustomTemplates',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to use custom query and document templates for special models like Qwen3 Reranker. Most standard reranker models (BAAI, Jina, etc.) do not need this.',
+      hint: 'Only enable if your model requires specific prompt formatting',
+    },
+    {
+      displayName: 'Template Preset',
+      name: 'templatePreset',
+      type: 'options',
+      options: [
+        {
+          name: 'Qwen3 Reranker',
+          value: 'qwen3',
+          description: 'Template for Qwen3 reranker models',
+        },
+        {
+          name: 'Custom',
+          value: 'custom',
+          description: 'Define custom templates',
+        },
+      ],
+      default: 'qwen3',
+      description: 'Select a template preset or use custom templates',
+      displayOptions: {
+        show: {
+          enableCustomTemplates: [true],
+        },
+      },
+    },
+    {
+      displayName: 'Instruction',
+      name: 'instruction',
+      type: 'string',
+      default: 'Given a web search query, retrieve relevant passages that answer the query',
+      description: 'The instruction for the reranker (used in Qwen3 template)',
+      hint: 'IMPORTANT: Qwen3 Reranker requires vLLM server started with: --task score --override-pooler-config \'{"architectures": ["Qwen3ForSequenceClassification"], "classifier_from_token": ["no", "yes"], "is_original_qwen3_reranker": true}\'',
+      displayOptions: {
+        show: {
+          enableCustomTemplates: [true],
+          templatePreset: ['qwen3'],
+        },
+      },
+    },
+    {
+      displayName: 'Query Prefix',
+      name: 'queryPrefix',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g., [INST] ',
+      description: 'Text to add before the query. The final format will be: prefix + query + suffix.',
+      typeOptions: {
+        rows: 3,
+      },
+      displayOptions: {
+        show: {
+          enableCustomTemplates: [true],
+          templatePreset: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Query Suffix',
+      name: 'querySuffix',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g., [/INST]',
+      description: 'Text to add after the query. The final format will be: prefix + query + suffix.',
+      typeOptions: {
+        rows: 2,
+      },
+      displayOptions: {
+        show: {
+          enableCustomTemplates: [true],
+          templatePreset: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Document Prefix',
+      name: 'documentPrefix',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g., [DOC] ',
+      description: 'Text to add before each document. The final format will be: prefix + document + suffix.',
+      displayOptions: {
+        show: {
+          enableCustomTemplates: [true],
+          templatePreset: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Document Suffix',
+      name: 'documentSuffix',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g., [/DOC]',
+      description: 'Text to add after each document. The final format will be: prefix + document + suffix.',
+      typeOptions: {
+        rows: 2,
+      },
+      displayOptions: {
+        show: {
+          enableCustomTemplates: [true],
+          templatePreset: ['custom'],
+        },
+      },
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const endpoint = this.getNodeParameter('endpoint', itemIndex) as string;
+    const model = this.getNodeParameter('model', itemIndex) as string;
+    const authenticationType = this.getNodeParameter('authenticationType', itemIndex, 'bearer') as string;
+    const apiFormat = this.getNodeParameter('apiFormat', itemIndex, 'rerank') as string;
+    const namespace = `openai-compatible:${endpoint}:${authenticationType}:${model}`;
+    return apiFormat === 'score' ? `${namespace}:score` : namespace;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    let credentials: any = '';
+    try {
+      credentials = await this.getCredentials('openAiApi');
+    } catch (e) {
+      credentials = '';
+    }
+
+    const endpoint = this.getNodeParameter('endpoint', itemIndex) as string;
+    const model = this.getNodeParameter('model', itemIndex) as string;
+    const authenticationType = this.getNodeParameter('authenticationType', itemIndex, 'bearer') as string;
+    const enableCustomTemplates = this.getNodeParameter('enableCustomTemplates', itemIndex, false) as boolean;
+    const apiFormat = this.getNodeParameter('apiFormat', itemIndex, 'rerank') as string;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+
+    if (credentials && credentials.apiKey && authenticationType === 'bearer') {
+      headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+    } else if (credentials && credentials.apiKey && authenticationType === 'apiKey') {
+      headers['api-key'] = credentials.apiKey;
+    }
+
+    // Format query and documents with templates if enabled
+    let finalQuery: string = query;
+    let finalDocuments: string[] = documentTexts;
+
+    if (enableCustomTemplates) {
+      const templatePreset = this.getNodeParameter('templatePreset', itemIndex, 'qwen3') as string;
+
+      if (templatePreset === 'qwen3') {
+        // Qwen3 specific format with instruction and special tags
+        const instruction = this.getNodeParameter('instruction', itemIndex, 'Given a web search query, retrieve relevant passages that answer the query') as string;
+        finalQuery = `${QWEN3_QUERY_PREFIX}<Instruct>: ${instruction}\n<Query>: ${query}\n`;
+        finalDocuments = documentTexts.map(
+          (doc) => `<Document>: ${doc}${QWEN3_DOCUMENT_SUFFIX}`
+        );
+      } else {
+        // Pure custom templates - user has full control
+        const queryPrefix = this.getNodeParameter('queryPrefix', itemIndex, '') as string;
+        const querySuffix = this.getNodeParameter('querySuffix', itemIndex, '') as string;
+        const documentPrefix = this.getNodeParameter('documentPrefix', itemIndex, '') as string;
+        const documentSuffix = this.getNodeParameter('documentSuffix', itemIndex, '') as string;
+        finalQuery = `${queryPrefix}${query}${querySuffix}`;
+        finalDocuments = documentTexts.map(
+          (doc) => `${documentPrefix}${doc}${documentSuffix}`
+        );
+      }
+    }
+
+    if (apiFormat === 'score') {
+      // vLLM score API pairs text_1 with every entry of text_2
+      return {
+        method: 'POST',
+        url: endpoint,
+        headers,
+        body: {
+          model,
+          text_1: finalQuery,
+          text_2: finalDocuments,
+        },
+        json: true,
+      };
+    }
+
+    return {
+      method: 'POST',
+      url: endpoint,
+      headers,
+      body: {
+        model,
+        query: finalQuery,
+        documents: finalDocuments,
+        top_n: Math.min(topK, docs.length),
+      },
+      json: true,
+    };
+  },
+
+  parseResponse(response, { topK, itemIndex }) {
+    const apiFormat = this.getNodeParameter('apiFormat', itemIndex, 'rerank') as string;
+    if (apiFormat === 'score') {
+      // Score API returns { data: [{ index, score }] } for every pair
+      return selectTopResults(response?.data, topK);
+    }
+    return response?.results;
+  },
+};
@@ -0,0 +1,121 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { RerankProvider } from './provider.types';
+import { buildFieldDocuments, parseFieldList } from './provider.utils';
+
+function getPineconeModel(this: IExecuteFunctions, itemIndex: number): string {
+  const pineconeModel = this.getNodeParameter('pineconeModel', itemIndex) as string;
+  return pineconeModel === 'custom'
+    ? this.getNodeParameter('pineconeCustomModel', itemIndex) as string
+    : pineconeModel;
+}
+
+function getRankFields(this: IExecuteFunctions, itemIndex: number): string[] {
+  const fields = parseFieldList(this.getNodeParameter('pineconeRankFields', itemIndex, 'text') as string);
+  return fields.length > 0 ? fields : ['text'];
+}
+
+export const pineconeProvider: RerankProvider = {
+  id: 'pinecone',
+  name: 'Pinecone Inference',
+  description: 'Use the Pinecone Inference rerank API',
+  credentials: [
+    {
+      name: 'pineconeRerankerApi',
+      required: true,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Model',
+      name: 'pineconeModel',
+      type: 'options',
+      options: [
+        {
+          name: 'bge-reranker-v2-m3',
+          value: 'bge-reranker-v2-m3',
+        },
+        {
+          name: 'cohere-rerank-3.5',
+          value: 'cohere-rerank-3.5',
+        },
+        {
+          name: 'Custom',
+          value: 'custom',
+        },
+        {
+          name: 'pinecone-rerank-v0',
+          value: 'pinecone-rerank-v0',
+        },
+      ],
+      default: 'bge-reranker-v2-m3',
+      description: 'The Pinecone hosted model to use for reranking',
+    },
+    {
+      displayName: 'Custom Model Name',
+      name: 'pineconeCustomModel',
+      type: 'string',
+      default: '',
+      placeholder: 'Enter custom Pinecone model name',
+      description: 'Custom Pinecone model name to use for reranking',
+      displayOptions: {
+        show: {
+          pineconeModel: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Rank Fields',
+      name: 'pineconeRankFields',
+      type: 'string',
+      default: 'text',
+      description: 'Comma-separated document fields to rank on. "text" is the document text unless the document has its own text field; other fields use dot notation, e.g. metadata.title. Only some models accept more than one field.',
+    },
+    {
+      displayName: 'Return Documents',
+      name: 'pineconeReturnDocuments',
+      type: 'boolean',
+      default: false,
+      description: 'Whether Pinecone should echo the ranked fields back. They are added to each result as _returnedDocument.',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const rankFields = getRankFields.call(this, itemIndex).join(',');
+    const returnDocuments = this.getNodeParameter('pineconeReturnDocuments', itemIndex, false) as boolean;
+    return `pinecone:${getPineconeModel.call(this, itemIndex)}:${rankFields}:${returnDocuments}`;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    const credentials = await this.getCredentials('pineconeRerankerApi');
+    const rankFields = getRankFields.call(this, itemIndex);
+
+    return {
+      method: 'POST',
+      url: 'https://api.pinecone.io/rerank',
+      headers: {
+        'Api-Key': credentials.apiKey as string,
+        'X-Pinecone-API-Version': '2025-01',
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: {
+        model: getPineconeModel.call(this, itemIndex),
+        query,
+        documents: buildFieldDocuments(docs, documentTexts, rankFields),
+        rank_fields: rankFields,
+        top_n: Math.min(topK, docs.length),
+        return_documents: this.getNodeParameter('pineconeReturnDocuments', itemIndex, false) as boolean,
+      },
+      json: true,
+    };
+  },
+
+  // Pinecone returns { data: [{ index, score, document? }] }
+  parseResponse(response) {
+    return response?.data?.map((r: any) => ({
+      index: r.index,
+      relevance_score: r.score,
+      document: r.document,
+    }));
+  },
+};
@@ -0,0 +1,58 @@
+import type {
+  IExecuteFunctions,
+  IHttpRequestOptions,
+  INodeCredentialDescription,
+  INodeProperties,
+} from 'n8n-workflow';
+
+/**
+ * Everything an adapter needs to build a request for one rerank call.
+ */
+export interface RerankRequestContext {
+  query: string;
+  docs: any[];
+  documentTexts: string[];
+  topK: number;
+  itemIndex: number;
+}
+
+/**
+ * Raw result as understood by processRerankResults: the position of the
+ * document in the request and its relevance score.
+ */
+export interface RawRerankResult {
+  index: number;
+  relevance_score?: number;
+  score?: number;
+  /** Document echoed back by the service, when it was asked to return documents */
+  document?: any;
+}
+
+/**
+ * A reranking backend. Both nodes resolve adapters by `id` through the registry,
+ * so adding a service only means implementing this interface and registering it.
+ */
+export interface RerankProvider {
+  /** Value of the node's `service` parameter */
+  id: string;
+  /** Display name, also used as the prefix of error messages */
+  name: string;
+  description: string;
+  /** Credentials the service can use; shown only when the service is selected */
+  credentials?: INodeCredentialDescription[];
+  /** Service-specific node parameters; shown only when the service is selected */
+  properties: INodeProperties[];
+  /**
+   * Scores depend on the other documents of the call (e.g. corpus statistics or
+   * listwise ranks), so the documents are never split by Max Documents per Request
+   */
+  relativeScores?: boolean;
+  /** Identifies the endpoint/model so cached results are never shared between configurations */
+  getCacheNamespace(this: IExecuteFunctions, itemIndex: number): string;
+  /** Single-request services: the HTTP request to send... */
+  buildRequest?(this: IExecuteFunctions, context: RerankRequestContext): Promise<IHttpRequestOptions>;
+  /** ...and how to read the results out of its response */
+  parseResponse?(this: IExecuteFunctions, response: any, context: RerankRequestContext): RawRerankResult[];
+  /** Services that need several requests (or none) score the documents themselves instead */
+  score?(this: IExecuteFunctions, context: RerankRequestContext): Promise<RawRerankResult[]>;
+}
@@ -0,0 +1,76 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { RawRerankResult } from './provider.types';
+
+/**
+ * JSON headers plus a bearer token when an OpenAI API credential is configured,
+ * for self-hosted servers where authentication is optional.
+ */
+export async function getOptionalBearerHeaders(this: IExecuteFunctions): Promise<Record<string, string>> {
+  let credentials: any = '';
+  try {
+    credentials = await this.getCredentials('openAiApi');
+  } catch (e) {
+    credentials = '';
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'application/json',
+  };
+
+  if (credentials && credentials.apiKey) {
+    headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+  }
+
+  return headers;
+}
+
+/**
+ * For services that score every document and have no top_n: keep the topK
+ * best results, as the other services already do server-side.
+ */
+export function selectTopResults(results: RawRerankResult[], topK: number): RawRerankResult[] {
+  if (!Array.isArray(results)) {
+    return results;
+  }
+  return [...results]
+    .sort((a, b) => (b.relevance_score || b.score || 0) - (a.relevance_score || a.score || 0))
+    .slice(0, topK);
+}
+
+/**
+ * Read a nested document field such as `metadata.title`.
+ */
+export function getValueAtPath(doc: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), doc);
+}
+
+/**
+ * Split a comma-separated list of document fields.
+ */
+export function parseFieldList(value: string): string[] {
+  return String(value ?? '')
+    .split(',')
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+}
+
+/**
+ * Flatten the given fields of each document into an object keyed by field
+ * path, for services that rank structured documents by `rank_fields`. The
+ * document text stands in for `text` when a document has no such field.
+ */
+export function buildFieldDocuments(docs: any[], documentTexts: string[], fields: string[]): Record<string, string>[] {
+  return docs.map((doc, i) => {
+    const document: Record<string, string> = {};
+    for (const field of fields) {
+      const value = getValueAtPath(doc, field);
+      if (value !== undefined && value !== null) {
+        document[field] = typeof value === 'string' ? value : JSON.stringify(value);
+      } else if (field === 'text') {
+        document[field] = documentTexts[i];
+      }
+    }
+    return document;
+  });
+}
@@ -0,0 +1,65 @@
+import type { RerankProvider } from './provider.types';
+import { getOptionalBearerHeaders, selectTopResults } from './provider.utils';
+
+export const teiProvider: RerankProvider = {
+  id: 'tei',
+  name: 'Hugging Face TEI',
+  description: 'Use the /rerank endpoint of Hugging Face Text Embeddings Inference',
+  credentials: [
+    {
+      name: 'openAiApi',
+      required: false,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Endpoint',
+      name: 'teiEndpoint',
+      type: 'string',
+      default: 'http://localhost:8080/rerank',
+      description: 'The TEI rerank endpoint URL',
+      hint: 'Example: http://localhost:8080/rerank. If a credential is set, its API key is sent as a bearer token.',
+    },
+    {
+      displayName: 'Raw Scores',
+      name: 'teiRawScores',
+      type: 'boolean',
+      default: false,
+      description: 'Whether to return raw logits instead of sigmoid-activated scores. Raw scores are not limited to 0-1 and are often negative, so lower the threshold below 0 or use Sigmoid score normalization.',
+    },
+    {
+      displayName: 'Truncate',
+      name: 'teiTruncate',
+      type: 'boolean',
+      default: true,
+      description: 'Whether TEI should truncate inputs longer than the model maximum instead of returning an error',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const endpoint = this.getNodeParameter('teiEndpoint', itemIndex) as string;
+    const rawScores = this.getNodeParameter('teiRawScores', itemIndex, false) as boolean;
+    const truncate = this.getNodeParameter('teiTruncate', itemIndex, true) as boolean;
+    return `tei:${endpoint}:${rawScores}:${truncate}`;
+  },
+
+  async buildRequest({ query, documentTexts, itemIndex }) {
+    return {
+      method: 'POST',
+      url: this.getNodeParameter('teiEndpoint', itemIndex) as string,
+      headers: await getOptionalBearerHeaders.call(this),
+      body: {
+        query,
+        texts: documentTexts,
+        raw_scores: this.getNodeParameter('teiRawScores', itemIndex, false) as boolean,
+        truncate: this.getNodeParameter('teiTruncate', itemIndex, true) as boolean,
+      },
+      json: true,
+    };
+  },
+
+  // TEI returns a bare array of { index, score } for every text
+  parseResponse(response, { topK }) {
+    return selectTopResults(response, topK);
+  },
+};
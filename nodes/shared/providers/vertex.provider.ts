@@ -0,0 +1,147 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { getGoogleAccessToken } from '../google.helpers';
+import type { RerankProvider } from './provider.types';
+import { getValueAtPath } from './provider.utils';
+
+const CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+
+function getVertexModel(this: IExecuteFunctions, itemIndex: number): string {
+  const vertexModel = this.getNodeParameter('vertexModel', itemIndex) as string;
+  return vertexModel === 'custom'
+    ? this.getNodeParameter('vertexCustomModel', itemIndex) as string
+    : vertexModel;
+}
+
+function getRankingConfigUrl(this: IExecuteFunctions, itemIndex: number): string {
+  const projectId = this.getNodeParameter('vertexProjectId', itemIndex) as string;
+  const location = this.getNodeParameter('vertexLocation', itemIndex, 'global') as string || 'global';
+  const rankingConfig =
+    this.getNodeParameter('vertexRankingConfig', itemIndex, 'default_ranking_config') as string || 'default_ranking_config';
+  return `https://discoveryengine.googleapis.com/v1/projects/${projectId}/locations/${location}/rankingConfigs/${rankingConfig}:rank`;
+}
+
+export const vertexProvider: RerankProvider = {
+  id: 'vertex',
+  name: 'Google Vertex AI Ranking',
+  description: 'Use the Vertex AI Search ranking API with a Google service account',
+  credentials: [
+    {
+      name: 'googleApi',
+      required: true,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Project ID',
+      name: 'vertexProjectId',
+      type: 'string',
+      default: '',
+      required: true,
+      placeholder: 'my-gcp-project',
+      description: 'Google Cloud project with the Discovery Engine API enabled',
+    },
+    {
+      displayName: 'Location',
+      name: 'vertexLocation',
+      type: 'string',
+      default: 'global',
+      description: 'Location of the ranking config',
+    },
+    {
+      displayName: 'Ranking Config',
+      name: 'vertexRankingConfig',
+      type: 'string',
+      default: 'default_ranking_config',
+      description: 'Name of the ranking config to call',
+    },
+    {
+      displayName: 'Model',
+      name: 'vertexModel',
+      type: 'options',
+      options: [
+        {
+          name: 'Custom',
+          value: 'custom',
+        },
+        {
+          name: 'semantic-ranker-default-004',
+          value: 'semantic-ranker-default-004',
+        },
+        {
+          name: 'semantic-ranker-default@latest',
+          value: 'semantic-ranker-default@latest',
+        },
+        {
+          name: 'semantic-ranker-fast-004',
+          value: 'semantic-ranker-fast-004',
+        },
+      ],
+      default: 'semantic-ranker-default@latest',
+      description: 'The ranking model to use',
+    },
+    {
+      displayName: 'Custom Model Name',
+      name: 'vertexCustomModel',
+      type: 'string',
+      default: '',
+      placeholder: 'Enter custom ranking model name',
+      description: 'Custom ranking model name to use for reranking',
+      displayOptions: {
+        show: {
+          vertexModel: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Title Field',
+      name: 'vertexTitleField',
+      type: 'string',
+      default: 'metadata.title',
+      description: 'Document field sent as the record title, which the ranker weighs alongside the content. Nested fields use dot notation; leave empty to send content only.',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const titleField = this.getNodeParameter('vertexTitleField', itemIndex, 'metadata.title') as string;
+    return `vertex:${getRankingConfigUrl.call(this, itemIndex)}:${getVertexModel.call(this, itemIndex)}:${titleField}`;
+  },
+
+  // Two requests (token exchange, then ranking), so this provider scores directly
+  async score({ query, docs, documentTexts, topK, itemIndex }) {
+    const accessToken = await getGoogleAccessToken.call(this, CLOUD_PLATFORM_SCOPE);
+    const titleField = this.getNodeParameter('vertexTitleField', itemIndex, 'metadata.title') as string;
+
+    const records = documentTexts.map((content, index) => {
+      const title = titleField ? getValueAtPath(docs[index], titleField) : undefined;
+      return {
+        id: String(index),
+        ...(title !== undefined && title !== null && title !== '' ? { title: String(title) } : {}),
+        content,
+      };
+    });
+
+    const response = await this.helpers.httpRequest({
+      method: 'POST',
+      url: getRankingConfigUrl.call(this, itemIndex),
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: {
+        model: getVertexModel.call(this, itemIndex),
+        query,
+        records,
+        topN: Math.min(topK, docs.length),
+        ignoreRecordDetailsInResponse: true,
+      },
+      json: true,
+    });
+
+    // Record IDs are the original positions; records are returned best first
+    return (response?.records ?? []).map((record: any) => ({
+      index: parseInt(record.id, 10),
+      relevance_score: record.score,
+    }));
+  },
+};
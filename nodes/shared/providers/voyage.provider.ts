@@ -0,0 +1,117 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { RerankProvider } from './provider.types';
+
+function getVoyageModel(this: IExecuteFunctions, itemIndex: number): string {
+  const voyageModel = this.getNodeParameter('voyageModel', itemIndex) as string;
+  return voyageModel === 'custom'
+    ? this.getNodeParameter('voyageCustomModel', itemIndex) as string
+    : voyageModel;
+}
+
+export const voyageProvider: RerankProvider = {
+  id: 'voyage',
+  name: 'Voyage AI',
+  description: 'Use Voyage AI rerank API',
+  credentials: [
+    {
+      name: 'voyageRerankerApi',
+      required: true,
+    },
+  ],
+  properties: [
+    {
+      displayName: 'Model',
+      name: 'voyageModel',
+      type: 'options',
+      options: [
+        {
+          name: 'Custom',
+          value: 'custom',
+        },
+        {
+          name: 'rerank-2',
+          value: 'rerank-2',
+        },
+        {
+          name: 'rerank-2-lite',
+          value: 'rerank-2-lite',
+        },
+        {
+          name: 'rerank-2.5',
+          value: 'rerank-2.5',
+        },
+        {
+          name: 'rerank-2.5-lite',
+          value: 'rerank-2.5-lite',
+        },
+      ],
+      default: 'rerank-2.5',
+      description: 'The Voyage AI model to use for reranking',
+    },
+    {
+      displayName: 'Custom Model Name',
+      name: 'voyageCustomModel',
+      type: 'string',
+      default: '',
+      placeholder: 'Enter custom Voyage AI model name',
+      description: 'Custom Voyage AI model name to use for reranking',
+      displayOptions: {
+        show: {
+          voyageModel: ['custom'],
+        },
+      },
+    },
+    {
+      displayName: 'Truncation',
+      name: 'voyageTruncation',
+      type: 'boolean',
+      default: true,
+      description: 'Whether Voyage should truncate the query and documents to fit the context length. When disabled, over-long inputs cause an error.',
+    },
+    {
+      displayName: 'Return Documents',
+      name: 'voyageReturnDocuments',
+      type: 'boolean',
+      default: false,
+      description: 'Whether Voyage should echo the document text back. The returned text is added to each result as _returnedDocument.',
+    },
+  ],
+
+  getCacheNamespace(itemIndex) {
+    const truncation = this.getNodeParameter('voyageTruncation', itemIndex, true) as boolean;
+    const returnDocuments = this.getNodeParameter('voyageReturnDocuments', itemIndex, false) as boolean;
+    return `voyage:${getVoyageModel.call(this, itemIndex)}:${truncation}:${returnDocuments}`;
+  },
+
+  async buildRequest({ query, docs, documentTexts, topK, itemIndex }) {
+    const credentials = await this.getCredentials('voyageRerankerApi');
+
+    return {
+      method: 'POST',
+      url: 'https://api.voyageai.com/v1/rerank',
+      headers: {
+        Authorization: `Bearer ${credentials.apiKey}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: {
+        model: getVoyageModel.call(this, itemIndex),
+        query,
+        documents: documentTexts,
+        top_k: Math.min(topK, docs.length),
+        truncation: this.getNodeParameter('voyageTruncation', itemIndex, true) as boolean,
+        return_documents: this.getNodeParameter('voyageReturnDocuments', itemIndex, false) as boolean,
+      },
+      json: true,
+    };
+  },
+
+  // Voyage returns { object: 'list', data: [{ index, relevance_score, document? }] }
+  parseResponse(response) {
+    return response?.data?.map((r: any) => ({
+      index: r.index,
+      relevance_score: r.relevance_score,
+      document: r.document,
+    }));
+  },
+};
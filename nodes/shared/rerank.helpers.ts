@@ -1,7 +1,36 @@
-import { IExecuteFunctions, NodeApiError, NodeOperationError, JsonObject } from 'n8n-workflow';
+import { IExecuteFunctions, IHttpRequestOptions, NodeApiError, NodeOperationError, JsonObject } from 'n8n-workflow';
+import { getRerankProvider, RawRerankResult, RerankRequestContext } from './providers';
+import { FusionMethod, fuseRankings, parseFusionWeights } from './fusion.helpers';
+import { FallbackErrorClass, ORIGINAL_ORDER, classifyRerankError } from './fallback.helpers';
+import { ScoreNormalization, isRelativeNormalization, normalizeScores } from './score.utils';
+import { diversifyWithMmr } from './mmr.helpers';
+import { DeduplicationMethod, expandDuplicates, findDuplicates } from './dedup.helpers';
+import { ParentAggregation, aggregateByParent } from './aggregation.helpers';
+import { BoostRule, RecencyDecay, applyBoosts } from './boost.helpers';
+import { FilterCondition, filterDocuments } from './filter.helpers';
+
+export {
+  registerRerankProvider,
+  getRerankProvider,
+  getRerankProviders,
+  getServiceOptions,
+  getServiceProperties,
+  getServiceCredentials,
+} from './providers';
+export type { RerankProvider, RerankRequestContext, RawRerankResult } from './providers';
+export { getFusionProperties } from './fusion.helpers';
+export { getCascadeProperties } from './cascade.helpers';
+export { getFallbackProperties } from './fallback.helpers';
+export { getMmrCredentials, getMmrProperties } from './mmr.helpers';
+export { getDeduplicationProperties } from './dedup.helpers';
+export { getAggregationProperties } from './aggregation.helpers';
+export { getBoostProperties } from './boost.helpers';
+export { getFilterProperties } from './filter.helpers';
 
 interface CacheEntry {
+  // Results before Threshold and Top K, for as many documents as were requested
   results: any[];
+  topK: number;
   timestamp: number;
 }
 
@@ -12,8 +41,12 @@ export function clearCache(): void {
   rerankCache.clear();
 }
 
-function createCacheKey(query: string, docs: any[], service: string, model: string): string {
-  const documentTexts = docs.map(d => d?.pageContent || d?.text || d?.content || d?.document || JSON.stringify(d));
+export function getDocumentText(doc: any): string {
+  return doc?.pageContent || doc?.text || doc?.content || doc?.document || JSON.stringify(doc);
+}
+
+function createCacheKey(query: string, docs: any[], namespace: string): string {
+  const documentTexts = docs.map(getDocumentText);
   const docsString = JSON.stringify(documentTexts);
   
   // Simple hash function for cache key generation
@@ -29,15 +62,16 @@ function createCacheKey(query: string, docs: any[], service: string, model: stri
   
   const queryHash = simpleHash(query);
   const docsHash = simpleHash(docsString);
-  return `${service}:${model}:${queryHash}:${docsHash}`;
+  return `${namespace}:${queryHash}:${docsHash}`;
 }
 
-function getCachedResult(key: string, ttlMinutes: number): any[] | null {
+function getCachedResult(key: string, ttlMinutes: number, topK: number): any[] | null {
   const cached = rerankCache.get(key);
   const ttlMs = ttlMinutes * 60 * 1000;
   
   if (cached && Date.now() - cached.timestamp < ttlMs) {
-    return cached.results;
+    // A smaller earlier request cannot answer a larger one
+    return cached.topK >= topK ? cached.results : null;
   }
   
   if (cached) {
@@ -47,8 +81,8 @@ function getCachedResult(key: string, ttlMinutes: number): any[] | null {
   return null;
 }
 
-function setCachedResult(key: string, results: any[]): void {
-  rerankCache.set(key, { results, timestamp: Date.now() });
+function setCachedResult(key: string, results: any[], topK: number): void {
+  rerankCache.set(key, { results, topK, timestamp: Date.now() });
   
   if (rerankCache.size > 1000) {
     const firstKey = rerankCache.keys().next().value;
@@ -64,16 +98,20 @@ function processRerankResults(
   originalDocs: any[],
   threshold: number,
   includeOriginalScores: boolean,
+  normalization: ScoreNormalization = 'none',
 ): any[] {
   if (!results || !Array.isArray(results)) {
     throw new NodeOperationError(self.getNode(), 'Invalid reranking results: expected array of results');
   }
 
+  const rawScores = results.map((r) => r.relevance_score || r.score || 0);
+  const scores = normalizeScores(rawScores, normalization);
+
   return results
-    .filter((r) => (r.relevance_score || r.score || 0) >= threshold)
-    .map((r) => {
+    .map((r, i) => ({ r, score: scores[i], rawScore: rawScores[i] }))
+    .filter(({ score }) => score >= threshold)
+    .map(({ r, score, rawScore }) => {
       const originalDoc = originalDocs[r.index];
-      const score = r.relevance_score || r.score || 0;
 
       const result: any = {
         ...originalDoc,
@@ -81,17 +119,26 @@ function processRerankResults(
         _originalIndex: r.index,
       };
 
+      if (normalization !== 'none') {
+        result._rawScore = rawScore;
+      }
+
       if (includeOriginalScores && originalDoc._originalScore !== undefined) {
         result._originalScore = originalDoc._originalScore;
       }
 
+      if (r.document !== undefined) {
+        result._returnedDocument = r.document;
+      }
+
       return result;
     })
     .sort((a, b) => b._rerankScore - a._rerankScore);
 }
 
-export async function rerankWithOpenAI(
+export async function rerankWithProvider(
   this: IExecuteFunctions,
+  service: string,
   query: string,
   docs: any[],
   topK: number,
@@ -99,23 +146,22 @@ export async function rerankWithOpenAI(
   itemIndex: number,
   includeOriginalScores: boolean,
 ): Promise<any[]> {
-  let credentials: any = '';
-  try {
-    credentials = await this.getCredentials('openAiApi');
-  } catch (e) {
-    credentials = '';
+  const provider = getRerankProvider(service);
+  if (!provider) {
+    throw new NodeOperationError(this.getNode(), `Unsupported service: ${service}`, { itemIndex });
   }
 
-  const endpoint = this.getNodeParameter('endpoint', itemIndex) as string;
-  const model = this.getNodeParameter('model', itemIndex) as string;
-  const authenticationType = this.getNodeParameter('authenticationType', itemIndex, 'bearer') as string;
+  const normalization = this.getNodeParameter('scoreNormalization', itemIndex, 'none') as ScoreNormalization;
   const enableCache = this.getNodeParameter('enableCache', itemIndex, false) as boolean;
   const cacheTtl = this.getNodeParameter('cacheTtl', itemIndex, 5) as number;
-  const enableCustomTemplates = this.getNodeParameter('enableCustomTemplates', itemIndex, false) as boolean;
+  const cacheKey = enableCache
+    ? createCacheKey(query, docs, `${provider.getCacheNamespace.call(this, itemIndex)}:${normalization}`)
+    : '';
 
+  // Relative normalizations need the scores of every document, not only the Top K
+  const requestedTopK = isRelativeNormalization(normalization) ? docs.length : Math.min(topK, docs.length);
   if (enableCache) {
-    const cacheKey = createCacheKey(query, docs, `openai-compatible:${endpoint}:${authenticationType}`, model);
-    const cached = getCachedResult(cacheKey, cacheTtl);
+    const cached = getCachedResult(cacheKey, cacheTtl, requestedTopK);
     if (cached) {
       return cached
         .filter(doc => doc._rerankScore >= threshold)
@@ -123,108 +169,79 @@ export async function rerankWithOpenAI(
     }
   }
 
-  const documentTexts = docs.map((d) =>
-    d?.pageContent || d?.text || d?.content || d?.document || JSON.stringify(d),
-  );
-
-  try {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
+  // Split large document sets so no request exceeds the service limit, unless
+  // the scores of separate batches would not be comparable
+  const maxPerRequest = provider.relativeScores
+    ? 0
+    : Math.floor(this.getNodeParameter('maxDocumentsPerRequest', itemIndex, 0) as number);
+  const batchSize = maxPerRequest > 0 ? maxPerRequest : docs.length;
+  const batchStarts = batchSize < docs.length
+    ? Array.from({ length: Math.ceil(docs.length / batchSize) }, (_, batch) => batch * batchSize)
+    : [0];
+  const documentTexts = docs.map(getDocumentText);
+
+  const batches: Array<{ start: number; context: RerankRequestContext; request?: IHttpRequestOptions }> = [];
+  for (const start of batchStarts) {
+    const context: RerankRequestContext = {
+      query,
+      docs: docs.slice(start, start + batchSize),
+      documentTexts: documentTexts.slice(start, start + batchSize),
+      topK: batchStarts.length > 1 ? Math.min(requestedTopK, batchSize) : requestedTopK,
+      itemIndex,
     };
+    const request = provider.score ? undefined : await provider.buildRequest!.call(this, context);
+    batches.push({ start, context, request });
+  }
+  const endpointInfo = batches[0].request ? `Endpoint: ${batches[0].request.url}\n` : '';
 
-    if (credentials && credentials.apiKey && authenticationType === 'bearer') {
-      headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-    } else if (credentials && credentials.apiKey && authenticationType === 'apiKey') {
-      headers['api-key'] = credentials.apiKey;
-    }
-
-    // Format query and documents with templates if enabled
-    let finalQuery: string = query;
-    let finalDocuments: string[] = documentTexts;
-
-    if (enableCustomTemplates) {
-      // Get template configuration
-      const templatePreset = this.getNodeParameter('templatePreset', itemIndex, 'qwen3') as string;
-
-      let queryPrefix: string;
-      let querySuffix: string;
-      let documentPrefix: string;
-      let documentSuffix: string;
-
-      if (templatePreset === 'qwen3') {
-        // Qwen3 Reranker default templates
-        queryPrefix = '<|im_start|>system\nJudge whether the Document meets the requirements based on the Query and the Instruct provided. Note that the answer can only be "yes" or "no".<|im_end|>\n<|im_start|>user\n';
-        querySuffix = '';
-        documentPrefix = '';
-        documentSuffix = '<|im_end|>\n<|im_start|>assistant\n<think>\n\n</think>\n\n';
-      } else {
-        // Custom templates
-        queryPrefix = this.getNodeParameter('queryPrefix', itemIndex, '') as string;
-        querySuffix = this.getNodeParameter('querySuffix', itemIndex, '') as string;
-        documentPrefix = this.getNodeParameter('documentPrefix', itemIndex, '') as string;
-        documentSuffix = this.getNodeParameter('documentSuffix', itemIndex, '') as string;
-      }
-
-      if (templatePreset === 'qwen3') {
-        // Qwen3 specific format with instruction and special tags
-        const instruction = this.getNodeParameter('instruction', itemIndex, 'Given a web search query, retrieve relevant passages that answer the query') as string;
-        finalQuery = `${queryPrefix}<Instruct>: ${instruction}\n<Query>: ${query}\n${querySuffix}`;
-        finalDocuments = documentTexts.map(
-          (doc) => `${documentPrefix}<Document>: ${doc}${documentSuffix}`
-        );
+  try {
+    const results: RawRerankResult[] = [];
+    for (const { start, context, request } of batches) {
+      let batchResults: RawRerankResult[];
+      if (provider.score) {
+        batchResults = await provider.score.call(this, context);
       } else {
-        // Pure custom templates - user has full control
-        finalQuery = `${queryPrefix}${query}${querySuffix}`;
-        finalDocuments = documentTexts.map(
-          (doc) => `${documentPrefix}${doc}${documentSuffix}`
-        );
+        const response = await this.helpers.httpRequest(request!);
+        batchResults = provider.parseResponse!.call(this, response, context);
       }
+      results.push(...(start ? batchResults.map((result) => ({ ...result, index: result.index + start })) : batchResults));
     }
 
-    // Always use standard OpenAI rerank format
-    const body = {
-      model,
-      query: finalQuery,
-      documents: finalDocuments,
-      top_n: Math.min(topK, docs.length),
-    };
-
-    const response = await this.helpers.httpRequest({
-      method: 'POST',
-      url: endpoint,
-      headers,
-      body,
-      json: true,
-    });
-
-    // Parse standard rerank response
-    const results = response.results;
-
-    const processedResults = processRerankResults(this, results, docs, threshold, includeOriginalScores);
+    const processedResults = processRerankResults(this, results, docs, -Infinity, includeOriginalScores, normalization);
+    const topResults = batchStarts.length > 1 ? processedResults.slice(0, requestedTopK) : processedResults;
 
     if (enableCache) {
-      const cacheKey = createCacheKey(query, docs, `openai-compatible:${endpoint}:${authenticationType}`, model);
-      setCachedResult(cacheKey, processedResults);
+      setCachedResult(cacheKey, topResults, requestedTopK);
     }
 
-    return processedResults;
+    const passed = topResults.filter(doc => doc._rerankScore >= threshold);
+    // Cut back to Top K when every document was requested for normalization
+    return requestedTopK > topK ? passed.slice(0, topK) : passed;
   } catch (error) {
+    // Configuration errors raised while scoring, e.g. a missing credential, are
+    // not API errors and must not be mistaken for connection failures
+    if (error instanceof NodeOperationError) {
+      throw error;
+    }
     const err: any = error;
     if (err?.response?.body) {
       throw new NodeApiError(this.getNode(), err, {
-        message: `API Error (${err.response.statusCode})`,
-        description: `Endpoint: ${endpoint}\nResponse: ${JSON.stringify(err.response.body, null, 2)}`,
+        message: `${provider.name} API Error (${err.response.statusCode})`,
+        description: `${endpointInfo}Response: ${JSON.stringify(err.response.body, null, 2)}`,
       });
     }
     throw new NodeApiError(this.getNode(), err as JsonObject, {
-      message: 'Request failed',
-      description: `Endpoint: ${endpoint}\nError: ${(err as Error).message}\nStack: ${(err as Error).stack}`,
+      message: `${provider.name} request failed`,
+      description: `${endpointInfo}Error: ${(err as Error).message}`,
     });
   }
 }
 
-export async function rerankWithCohere(
+/**
+ * Rerank with every selected service and fuse their rankings. Each service
+ * ranks all documents; the threshold and Top K apply to the fused score.
+ */
+export async function rerankWithFusion(
   this: IExecuteFunctions,
   query: string,
   docs: any[],
@@ -233,71 +250,298 @@ export async function rerankWithCohere(
   itemIndex: number,
   includeOriginalScores: boolean,
 ): Promise<any[]> {
-  // Prefer the official Cohere credential if available; fallback to legacy custom credential
-  let credentials: any;
-  try {
-    credentials = await this.getCredentials('cohereApi');
-  } catch (e) {
-    credentials = await this.getCredentials('cohereRerankerApi');
+  const services = this.getNodeParameter('fusionServices', itemIndex, []) as string[];
+  const method = this.getNodeParameter('fusionMethod', itemIndex, 'rrf') as FusionMethod;
+  const rrfK = this.getNodeParameter('fusionRrfK', itemIndex, 60) as number;
+  const weights = parseFusionWeights(this.getNodeParameter('fusionWeights', itemIndex, '') as string);
+
+  if (!services.length) {
+    throw new NodeOperationError(this.getNode(), 'Select at least one service to fuse', { itemIndex });
+  }
+  if (typeof weights === 'string') {
+    throw new NodeOperationError(this.getNode(), weights, { itemIndex });
   }
-  const cohereModel = this.getNodeParameter('cohereModel', itemIndex) as string;
-  const model = cohereModel === 'custom' 
-    ? this.getNodeParameter('cohereCustomModel', itemIndex) as string 
-    : cohereModel;
-  const enableCache = this.getNodeParameter('enableCache', itemIndex, false) as boolean;
-  const cacheTtl = this.getNodeParameter('cacheTtl', itemIndex, 5) as number;
 
-  if (enableCache) {
-    const cacheKey = createCacheKey(query, docs, 'cohere', model);
-    const cached = getCachedResult(cacheKey, cacheTtl);
-    if (cached) {
-      return cached
-        .filter(doc => doc._rerankScore >= threshold)
-        .slice(0, topK);
-    }
+  const rankings = await Promise.all(
+    services.map(async (service) => ({
+      service,
+      weight: weights[service] ?? 1,
+      results: await rerankWithProvider.call(
+        this,
+        service,
+        query,
+        docs,
+        docs.length,
+        -Infinity,
+        itemIndex,
+        includeOriginalScores,
+      ),
+    })),
+  );
+
+  const fused = fuseRankings(rankings, method, rrfK);
+  const serviceScores = new Map(fused.map((result) => [result.index, result.services]));
+
+  return processRerankResults(
+    this,
+    fused.map((result) => ({ index: result.index, relevance_score: result.score })),
+    docs,
+    threshold,
+    includeOriginalScores,
+  )
+    .slice(0, topK)
+    .map((doc) => ({ ...doc, _serviceScores: serviceScores.get(doc._originalIndex) }));
+}
+
+/**
+ * Two-stage reranking: a fast service narrows the documents down to a few
+ * candidates, which a stronger service then reorders. Top K and the threshold
+ * apply to the second stage.
+ */
+export async function rerankWithCascade(
+  this: IExecuteFunctions,
+  query: string,
+  docs: any[],
+  topK: number,
+  threshold: number,
+  itemIndex: number,
+  includeOriginalScores: boolean,
+): Promise<any[]> {
+  const firstService = this.getNodeParameter('cascadeFirstService', itemIndex, 'bm25') as string;
+  const secondService = this.getNodeParameter('cascadeSecondService', itemIndex, 'cohere') as string;
+  const candidates = this.getNodeParameter('cascadeCandidates', itemIndex, 20) as number;
+  const firstThreshold = this.getNodeParameter('cascadeFirstThreshold', itemIndex, 0) as number;
+
+  const firstStage = (
+    await rerankWithProvider.call(this, firstService, query, docs, candidates, firstThreshold, itemIndex, false)
+  ).slice(0, candidates);
+  if (!firstStage.length) {
+    return [];
   }
 
-  const documentTexts = docs.map((d) =>
-    d?.pageContent || d?.text || d?.content || d?.document || JSON.stringify(d),
+  const secondStage = await rerankWithProvider.call(
+    this,
+    secondService,
+    query,
+    firstStage.map((doc) => docs[doc._originalIndex]),
+    topK,
+    threshold,
+    itemIndex,
+    includeOriginalScores,
   );
 
-  try {
-    const response = await this.helpers.httpRequest({
-      method: 'POST',
-      url: 'https://api.cohere.ai/v1/rerank',
-      headers: {
-        Authorization: `Bearer ${credentials.apiKey}`,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: {
-        model,
-        query,
-        documents: documentTexts,
-        top_n: Math.min(topK, docs.length),
+  // Second stage indices point into the candidate list; map them back to the input
+  return secondStage.slice(0, topK).map((doc, rank) => {
+    const candidate = firstStage[doc._originalIndex];
+    return {
+      ...doc,
+      _originalIndex: candidate._originalIndex,
+      _serviceScores: {
+        [firstService]: { rank: doc._originalIndex + 1, score: candidate._rerankScore },
+        [secondService]: { rank: rank + 1, score: doc._rerankScore },
       },
-      json: true,
-    });
+    };
+  });
+}
 
-    const results = processRerankResults(this, response.results, docs, threshold, includeOriginalScores);
-    
-    if (enableCache) {
-      const cacheKey = createCacheKey(query, docs, 'cohere', model);
-      setCachedResult(cacheKey, results);
+/**
+ * Try the selected services in order until one succeeds. API errors of the
+ * configured classes move on to the next service; every result reports the
+ * service that served it in `_servedBy`.
+ */
+export async function rerankWithFallback(
+  this: IExecuteFunctions,
+  query: string,
+  docs: any[],
+  topK: number,
+  threshold: number,
+  itemIndex: number,
+  includeOriginalScores: boolean,
+): Promise<any[]> {
+  const services = this.getNodeParameter('fallbackServices', itemIndex, []) as string[];
+  const fallbackOn = this.getNodeParameter('fallbackOn', itemIndex, ['connection', 'rateLimit', 'serverError']) as FallbackErrorClass[];
+  const toOriginalOrder = this.getNodeParameter('fallbackToOriginalOrder', itemIndex, true) as boolean;
+
+  if (!services.length) {
+    throw new NodeOperationError(this.getNode(), 'Select at least one service to try', { itemIndex });
+  }
+
+  let lastError: unknown;
+  for (const service of services) {
+    try {
+      const results = await rerankWithProvider.call(
+        this,
+        service,
+        query,
+        docs,
+        topK,
+        threshold,
+        itemIndex,
+        includeOriginalScores,
+      );
+      return results.map((doc) => ({ ...doc, _servedBy: service }));
+    } catch (error) {
+      const errorClass = classifyRerankError(error);
+      if (!errorClass || !fallbackOn.includes(errorClass)) {
+        throw error;
+      }
+      this.logger.warn(`Reranking with ${service} failed, falling back: ${(error as Error).message}`);
+      lastError = error;
     }
-    
-    return results;
-  } catch (error) {
-    const err: any = error;
-    if (err?.response?.body) {
-      throw new NodeApiError(this.getNode(), err, {
-        message: `Cohere API Error (${err.response.statusCode})`,
-        description: JSON.stringify(err.response.body),
-      });
+  }
+
+  if (!toOriginalOrder) {
+    throw lastError;
+  }
+
+  return docs
+    .slice(0, topK)
+    .map((doc, index) => ({ ...doc, _rerankScore: 0, _originalIndex: index, _servedBy: ORIGINAL_ORDER }));
+}
+
+function rerankWithStrategy(
+  this: IExecuteFunctions,
+  query: string,
+  docs: any[],
+  topK: number,
+  threshold: number,
+  itemIndex: number,
+  includeOriginalScores: boolean,
+): Promise<any[]> {
+  const strategy = this.getNodeParameter('strategy', itemIndex, 'single') as string;
+  if (strategy === 'fusion') {
+    return rerankWithFusion.call(this, query, docs, topK, threshold, itemIndex, includeOriginalScores);
+  }
+  if (strategy === 'cascade') {
+    return rerankWithCascade.call(this, query, docs, topK, threshold, itemIndex, includeOriginalScores);
+  }
+  if (strategy === 'fallback') {
+    return rerankWithFallback.call(this, query, docs, topK, threshold, itemIndex, includeOriginalScores);
+  }
+
+  const service = this.getNodeParameter('service', itemIndex) as string;
+  return rerankWithProvider.call(this, service, query, docs, topK, threshold, itemIndex, includeOriginalScores);
+}
+
+/**
+ * Rerank with the strategy configured on the node: a single service, the
+ * fusion of several, a two-stage cascade, or a fallback chain. Around that,
+ * documents failing the metadata filters are dropped before anything leaves
+ * the node, duplicates can be collapsed so each text is only reranked once,
+ * scores can be boosted by metadata and decayed by age, chunks can be grouped
+ * into parent documents, and with MMR enabled the Top K are picked for
+ * diversity. Boosting, grouping and MMR rerank every document so they can
+ * choose the Top K themselves.
+ */
+export async function rerankDocuments(
+  this: IExecuteFunctions,
+  query: string,
+  docs: any[],
+  topK: number,
+  threshold: number,
+  itemIndex: number,
+  includeOriginalScores: boolean,
+): Promise<any[]> {
+  const deduplication = this.getNodeParameter('deduplication', itemIndex, 'none') as DeduplicationMethod;
+  const groupByParent = this.getNodeParameter('groupByParent', itemIndex, false) as boolean;
+  const enableMmr = this.getNodeParameter('enableMmr', itemIndex, false) as boolean;
+  const boostRules = ((this.getNodeParameter('boostRules', itemIndex, {}) as { rules?: BoostRule[] } | undefined)?.rules ?? [])
+    .filter((rule) => rule.field);
+  const recency: RecencyDecay | undefined = this.getNodeParameter('enableRecencyDecay', itemIndex, false)
+    ? {
+      field: this.getNodeParameter('recencyField', itemIndex, 'metadata.updatedAt') as string,
+      halfLifeDays: this.getNodeParameter('recencyHalfLife', itemIndex, 30) as number,
     }
-    throw new NodeApiError(this.getNode(), err as JsonObject, {
-      message: 'Cohere request failed',
-      description: (err as Error).message,
+    : undefined;
+  const boost = boostRules.length > 0 || recency !== undefined;
+  const rerankAll = boost || groupByParent || enableMmr;
+
+  const conditions = (this.getNodeParameter('metadataFilters', itemIndex, {}) as { conditions?: FilterCondition[] } | undefined)
+    ?.conditions ?? [];
+  const kept = conditions.length ? filterDocuments(docs, conditions) : docs.map((_, index) => index);
+
+  // Duplicates point at the global index of the first document of their group
+  let duplicateOf: number[] | undefined;
+  if (deduplication !== 'none') {
+    const keptDuplicateOf = findDuplicates(
+      kept.map((index) => getDocumentText(docs[index])),
+      deduplication,
+      this.getNodeParameter('dedupSimilarity', itemIndex, 0.85) as number,
+    );
+    duplicateOf = docs.map(() => -1);
+    kept.forEach((index, position) => {
+      duplicateOf![index] = keptDuplicateOf[position] === -1 ? -1 : kept[keptDuplicateOf[position]];
     });
   }
+
+  const sent = duplicateOf ? kept.filter((index) => duplicateOf![index] === -1) : kept;
+  if (!sent.length) {
+    return [];
+  }
+
+  let results = await rerankWithStrategy.call(
+    this,
+    query,
+    sent.map((index) => docs[index]),
+    rerankAll ? sent.length : topK,
+    threshold,
+    itemIndex,
+    includeOriginalScores,
+  );
+  if (sent.length !== docs.length) {
+    results = results.map((result) => ({ ...result, _originalIndex: sent[result._originalIndex] }));
+  }
+
+  if (duplicateOf) {
+    results = expandDuplicates(
+      results,
+      docs,
+      duplicateOf,
+      this.getNodeParameter('dedupKeepDuplicates', itemIndex, false) as boolean,
+      rerankAll ? docs.length : topK,
+    );
+  }
+
+  if (boost) {
+    results = applyBoosts(results, boostRules, recency);
+  }
+
+  if (groupByParent) {
+    results = aggregateByParent(
+      results,
+      results.map(getDocumentText),
+      this.getNodeParameter('parentField', itemIndex, 'metadata.source') as string,
+      this.getNodeParameter('parentAggregation', itemIndex, 'max') as ParentAggregation,
+      this.getNodeParameter('parentTopN', itemIndex, 3) as number,
+    );
+  }
+
+  if (enableMmr) {
+    return diversifyWithMmr.call(this, results, results.map(getDocumentText), topK, itemIndex);
+  }
+  return rerankAll ? results.slice(0, topK) : results;
+}
+
+export async function rerankWithOpenAI(
+  this: IExecuteFunctions,
+  query: string,
+  docs: any[],
+  topK: number,
+  threshold: number,
+  itemIndex: number,
+  includeOriginalScores: boolean,
+): Promise<any[]> {
+  return rerankWithProvider.call(this, 'openai-compatible', query, docs, topK, threshold, itemIndex, includeOriginalScores);
+}
+
+export async function rerankWithCohere(
+  this: IExecuteFunctions,
+  query: string,
+  docs: any[],
+  topK: number,
+  threshold: number,
+  itemIndex: number,
+  includeOriginalScores: boolean,
+): Promise<any[]> {
+  return rerankWithProvider.call(this, 'cohere', query, docs, topK, threshold, itemIndex, includeOriginalScores);
 }
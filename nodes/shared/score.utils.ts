@@ -0,0 +1,49 @@
+export type ScoreNormalization = 'none' | 'sigmoid' | 'minMax' | 'softmax' | 'zScore';
+
+// Map a logit to a 0-1 probability
+export function sigmoid(logit: number): number {
+  return 1 / (1 + Math.exp(-logit));
+}
+
+/**
+ * Map scores from different services onto a comparable scale. Min-max,
+ * softmax and z-score are relative to the scores of one reranking call.
+ */
+export function normalizeScores(scores: number[], method: ScoreNormalization): number[] {
+  if (!scores.length) {
+    return scores;
+  }
+
+  switch (method) {
+    case 'sigmoid':
+      return scores.map(sigmoid);
+    case 'minMax': {
+      const min = Math.min(...scores);
+      const range = Math.max(...scores) - min;
+      // A single score (or all equal) is as relevant as the set allows
+      return scores.map((score) => (range > 0 ? (score - min) / range : 1));
+    }
+    case 'softmax': {
+      // Shift by the maximum to avoid overflow in exp()
+      const max = Math.max(...scores);
+      const exps = scores.map((score) => Math.exp(score - max));
+      const sum = exps.reduce((total, value) => total + value, 0);
+      return exps.map((value) => value / sum);
+    }
+    case 'zScore': {
+      const mean = scores.reduce((total, score) => total + score, 0) / scores.length;
+      const std = Math.sqrt(scores.reduce((total, score) => total + (score - mean) ** 2, 0) / scores.length);
+      return scores.map((score) => (std > 0 ? (score - mean) / std : 0));
+    }
+    default:
+      return scores;
+  }
+}
+
+/**
+ * Whether normalized scores depend on the other scores of the call, so every
+ * document has to be scored for them to stay the same whatever the Top K.
+ */
+export function isRelativeNormalization(method: ScoreNormalization): boolean {
+  return method === 'minMax' || method === 'softmax' || method === 'zScore';
+}
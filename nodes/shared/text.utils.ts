@@ -0,0 +1,10 @@
+/**
+ * Lowercased word tokens (letters and digits in any script), used by the
+ * local lexical scoring in this package.
+ */
+export function tokenize(text: string): string[] {
+  return String(text ?? '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
@@ -0,0 +1,90 @@
+/**
+ * Parent aggregation tests
+ * Tests grouping reranked chunks into parent documents
+ */
+
+import { rerankDocuments } from '../nodes/shared/rerank.helpers';
+import { aggregateByParent } from '../nodes/shared/aggregation.helpers';
+import { createMockExecuteFunctions, mockQuery } from './helpers/mock-helpers';
+
+const chunks = [
+  { pageContent: 'Intro to reranking', metadata: { source: 'guide.md', chunk: 0 } },
+  { pageContent: 'Cross-encoders score query and document together', metadata: { source: 'guide.md', chunk: 1 } },
+  { pageContent: 'Release notes', metadata: { source: 'changelog.md', chunk: 0 } },
+  { pageContent: 'Untitled note', metadata: {} },
+];
+
+const rerankedChunks = [
+  { ...chunks[1], _rerankScore: 0.9, _originalIndex: 1 },
+  { ...chunks[2], _rerankScore: 0.8, _originalIndex: 2 },
+  { ...chunks[0], _rerankScore: 0.3, _originalIndex: 0 },
+  { ...chunks[3], _rerankScore: 0.1, _originalIndex: 3 },
+];
+
+function aggregate(method: 'max' | 'meanTopN' | 'sum', topN?: number) {
+  return aggregateByParent(
+    rerankedChunks,
+    rerankedChunks.map(chunk => chunk.pageContent),
+    'metadata.source',
+    method,
+    topN
+  );
+}
+
+describe('Parent Aggregation', () => {
+  describe('aggregateByParent', () => {
+    test('should group chunks and score parents by their best chunk', () => {
+      const parents = aggregate('max');
+
+      expect(parents.map(parent => parent._parentKey)).toEqual(['guide.md', 'changelog.md', null]);
+      expect(parents.map(parent => parent._rerankScore)).toEqual([0.9, 0.8, 0.1]);
+      expect(parents[0]).toMatchObject({
+        pageContent: 'Intro to reranking\n\nCross-encoders score query and document together',
+        metadata: { source: 'guide.md', chunk: 1 },
+        _originalIndex: 1,
+      });
+      expect(parents[0]._chunks).toEqual([rerankedChunks[0], rerankedChunks[2]]);
+    });
+
+    test('should average the best N chunks', () => {
+      const parents = aggregate('meanTopN', 2);
+
+      expect(parents.map(parent => parent._parentKey)).toEqual(['changelog.md', 'guide.md', null]);
+      expect(parents[1]._rerankScore).toBeCloseTo(0.6, 10);
+      expect(aggregate('meanTopN', 1)[0]._rerankScore).toBe(0.9);
+    });
+
+    test('should sum chunk scores', () => {
+      const parents = aggregate('sum');
+
+      expect(parents[0]._parentKey).toBe('guide.md');
+      expect(parents[0]._rerankScore).toBeCloseTo(1.2, 10);
+    });
+  });
+
+  describe('rerankDocuments with parent aggregation', () => {
+    test('should rerank every chunk and return the Top K parents', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        service: 'tei',
+        teiEndpoint: 'http://localhost:8080/rerank',
+        groupByParent: true,
+        parentAggregation: 'sum'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue([
+        { index: 2, score: 0.8 },
+        { index: 1, score: 0.5 },
+        { index: 0, score: 0.4 },
+        { index: 3, score: 0.1 }
+      ]);
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, chunks, 1, 0.2, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toHaveLength(4);
+      expect(result).toHaveLength(1);
+      expect(result[0]._parentKey).toBe('guide.md');
+      expect(result[0]._rerankScore).toBeCloseTo(0.9, 10);
+      expect(result[0]._chunks.map((chunk: any) => chunk._originalIndex)).toEqual([1, 0]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Batching tests
+ * Tests splitting large document sets into several rerank requests
+ */
+
+import { rerankWithProvider, rerankDocuments, registerRerankProvider, getRerankProvider, clearCache } from '../nodes/shared/rerank.helpers';
+import { createTeiScoringMock, mockQuery } from './helpers/mock-helpers';
+import { NodeApiError } from 'n8n-workflow';
+
+const docs = Array.from({ length: 7 }, (_, i) => ({ pageContent: `Document ${i}`, metadata: { page: i } }));
+
+// Scores each document by the number in its text, so document 6 ranks first
+function createBatchingMock(parameters: Record<string, any> = {}) {
+  return createTeiScoringMock({ maxDocumentsPerRequest: 3, ...parameters }, text => Number(text.split(' ')[1]) / 10);
+}
+
+describe('Batching', () => {
+  beforeEach(() => {
+    clearCache();
+  });
+
+  test('should split documents into batches and merge them with global indices', async () => {
+    const mockExecuteFunctions = createBatchingMock();
+
+    const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, docs, 4, 0.0, 0, false);
+
+    const texts = mockExecuteFunctions.helpers.httpRequest.mock.calls.map((call: any[]) => call[0].body.texts);
+    expect(texts).toEqual([
+      ['Document 0', 'Document 1', 'Document 2'],
+      ['Document 3', 'Document 4', 'Document 5'],
+      ['Document 6']
+    ]);
+    expect(result.map(doc => doc._originalIndex)).toEqual([6, 5, 4, 3]);
+    expect(result.map(doc => doc.pageContent)).toEqual(['Document 6', 'Document 5', 'Document 4', 'Document 3']);
+    expect(result[0].metadata).toEqual({ page: 6 });
+  });
+
+  test('should normalize and threshold the merged scores', async () => {
+    const mockExecuteFunctions = createBatchingMock({ scoreNormalization: 'minMax' });
+
+    const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, docs, 10, 0.5, 0, false);
+
+    expect(result.map(doc => doc._originalIndex)).toEqual([6, 5, 4, 3]);
+    expect(result[0]._rerankScore).toBe(1);
+    expect(result[3]._rerankScore).toBe(0.5);
+  });
+
+  test('should round fractional batch sizes down', async () => {
+    const mockExecuteFunctions = createBatchingMock({ maxDocumentsPerRequest: 2.5 });
+
+    const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, docs, 10, 0.0, 0, false);
+
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(4);
+    expect(result.map(doc => doc._originalIndex)).toEqual([6, 5, 4, 3, 2, 1, 0]);
+  });
+
+  test('should not split services whose scores are relative to the call', async () => {
+    const score = jest.fn().mockImplementation(({ documentTexts }: any) =>
+      Promise.resolve(documentTexts.map((_: string, index: number) => ({ index, score: 1 / (index + 1) })))
+    );
+    registerRerankProvider({
+      id: 'relative-test',
+      name: 'Relative Test',
+      description: 'Ranks documents relative to each other',
+      properties: [],
+      relativeScores: true,
+      getCacheNamespace: () => 'relative-test',
+      score,
+    });
+
+    const result = await rerankWithProvider.call(createBatchingMock(), 'relative-test', mockQuery, docs, 10, 0.0, 0, false);
+
+    expect(score).toHaveBeenCalledTimes(1);
+    expect(score.mock.calls[0][0].documentTexts).toHaveLength(docs.length);
+    expect(result[0]._originalIndex).toBe(0);
+  });
+
+  test('should not split BM25 or LLM ranking', () => {
+    expect(getRerankProvider('bm25')?.relativeScores).toBe(true);
+    expect(getRerankProvider('llm')?.relativeScores).toBe(true);
+    expect(getRerankProvider('tei')?.relativeScores).toBeUndefined();
+  });
+
+  test('should send all documents at once without a limit', async () => {
+    const mockExecuteFunctions = createBatchingMock({ maxDocumentsPerRequest: 0 });
+
+    await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, docs, 4, 0.0, 0, false);
+
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+    expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toHaveLength(7);
+  });
+
+  test('should fail when any batch fails', async () => {
+    const mockExecuteFunctions = createBatchingMock();
+    mockExecuteFunctions.helpers.httpRequest
+      .mockResolvedValueOnce([{ index: 0, score: 0.5 }])
+      .mockRejectedValueOnce({ response: { statusCode: 413, body: { error: 'Payload too large' } } });
+
+    await expect(
+      rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, docs, 4, 0.0, 0, false)
+    ).rejects.toThrow(NodeApiError);
+  });
+
+  test('should batch every service of a strategy', async () => {
+    const mockExecuteFunctions = createBatchingMock({ strategy: 'fallback', fallbackServices: ['tei'] });
+
+    const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, docs, 2, 0.0, 0, false);
+
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(3);
+    expect(result.map(doc => doc._originalIndex)).toEqual([6, 5]);
+    expect(result[0]._servedBy).toBe('tei');
+  });
+});
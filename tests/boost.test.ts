@@ -0,0 +1,113 @@
+/**
+ * Boost tests
+ * Tests adjusting reranking scores by metadata and document age
+ */
+
+import { rerankDocuments } from '../nodes/shared/rerank.helpers';
+import { applyBoosts, parseDate } from '../nodes/shared/boost.helpers';
+import { createMockExecuteFunctions, mockQuery } from './helpers/mock-helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse('2025-06-01T00:00:00Z');
+
+const reranked = [
+  { pageContent: 'Old policy', metadata: { source: 'wiki', updatedAt: '2025-04-02T00:00:00Z', tags: ['hr'] }, _rerankScore: 0.8, _originalIndex: 0 },
+  { pageContent: 'Handbook policy', metadata: { source: 'handbook', updatedAt: now - 30 * DAY_MS }, _rerankScore: 0.7, _originalIndex: 1 },
+  { pageContent: 'Undated note', metadata: { source: 'notes' }, _rerankScore: 0.5, _originalIndex: 2 },
+];
+
+describe('Boosting', () => {
+  describe('applyBoosts', () => {
+    test('should multiply and add by matching rules and re-sort', () => {
+      const boosted = applyBoosts(reranked, [
+        { field: 'metadata.source', operator: 'equals', value: 'handbook', mode: 'multiply', amount: 1.2 },
+        { field: 'metadata.tags', operator: 'contains', value: 'hr', mode: 'add', amount: -0.1 },
+      ]);
+
+      expect(boosted.map(doc => doc._originalIndex)).toEqual([1, 0, 2]);
+      expect(boosted[0]._rerankScore).toBeCloseTo(0.84, 10);
+      expect(boosted[0]._unboostedScore).toBe(0.7);
+      expect(boosted[1]._rerankScore).toBeCloseTo(0.7, 10);
+      expect(boosted[2]).toBe(reranked[2]);
+    });
+
+    test('should support exists and not equals', () => {
+      const boosted = applyBoosts(reranked, [
+        { field: 'metadata.updatedAt', operator: 'exists', mode: 'add', amount: 1 },
+        { field: 'metadata.source', operator: 'notEquals', value: 'wiki', mode: 'multiply', amount: 2 },
+      ]);
+
+      expect(boosted.map(doc => doc._rerankScore)).toEqual([3.4, 1.8, 1]);
+    });
+
+    test('should halve scores every half-life', () => {
+      const decayed = applyBoosts(reranked, [], { field: 'metadata.updatedAt', halfLifeDays: 30 }, now);
+
+      expect(decayed.map(doc => doc._originalIndex)).toEqual([2, 1, 0]);
+      expect(decayed[1]._rerankScore).toBeCloseTo(0.35, 10);
+      expect(decayed[2]._rerankScore).toBeCloseTo(0.2, 10);
+      expect(decayed[0]).not.toHaveProperty('_unboostedScore');
+    });
+    test('should scale negative scores to 0-1 before multiplying or decaying them', () => {
+      const signed = [
+        { pageContent: 'Other note', metadata: { source: 'notes' }, _rerankScore: -0.5, _originalIndex: 0 },
+        { pageContent: 'Handbook policy', metadata: { source: 'handbook', updatedAt: now }, _rerankScore: -1.0, _originalIndex: 1 },
+        { pageContent: 'Old policy', metadata: { source: 'wiki', updatedAt: now - 365 * DAY_MS }, _rerankScore: -1.1, _originalIndex: 2 },
+      ];
+
+      const boosted = applyBoosts(signed, [
+        { field: 'metadata.source', operator: 'equals', value: 'handbook', mode: 'multiply', amount: 3 },
+      ], { field: 'metadata.updatedAt', halfLifeDays: 30 }, now);
+
+      expect(boosted.map(doc => doc._originalIndex)).toEqual([0, 1, 2]);
+      expect(boosted[0]._rerankScore).toBe(1);
+      expect(boosted[1]._rerankScore).toBeCloseTo(0.5, 10);
+      expect(boosted[1]._unboostedScore).toBe(-1.0);
+      expect(boosted[2]._rerankScore).toBe(0);
+    });
+
+    test('should add to negative scores as they are', () => {
+      const boosted = applyBoosts([{ metadata: { source: 'handbook' }, _rerankScore: -1, _originalIndex: 0 }], [
+        { field: 'metadata.source', operator: 'equals', value: 'handbook', mode: 'add', amount: 0.5 },
+      ]);
+
+      expect(boosted[0]._rerankScore).toBe(-0.5);
+    });
+  });
+
+  describe('parseDate', () => {
+    test('should read ISO dates and Unix timestamps', () => {
+      expect(parseDate('2025-06-01T00:00:00Z')).toBe(now);
+      expect(parseDate(now / 1000)).toBe(now);
+      expect(parseDate(String(now))).toBe(now);
+      expect(parseDate('not a date')).toBeUndefined();
+      expect(parseDate(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('rerankDocuments with boosts', () => {
+    test('should rerank every document and pick the Top K after boosting', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        service: 'tei',
+        teiEndpoint: 'http://localhost:8080/rerank',
+        boostRules: {
+          rules: [{ field: 'metadata.source', operator: 'equals', value: 'handbook', mode: 'multiply', amount: 1.5 }]
+        }
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue([
+        { index: 0, score: 0.8 },
+        { index: 1, score: 0.7 },
+        { index: 2, score: 0.5 }
+      ]);
+      const docs = reranked.map(({ pageContent, metadata }) => ({ pageContent, metadata }));
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, docs, 1, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toHaveLength(3);
+      expect(result).toHaveLength(1);
+      expect(result[0]._originalIndex).toBe(1);
+      expect(result[0]._rerankScore).toBeCloseTo(1.05, 10);
+    });
+  });
+});
@@ -473,5 +473,27 @@ describe('Cache Functionality', () => {
       expect(result2.length).toBeLessThanOrEqual(2);
       expect(result2.length).toBeLessThan(result1.length);
     });
+
+    test('should not answer a larger topK from a smaller cached request', async () => {
+      mockExecuteFunctions.helpers.httpRequest
+        .mockResolvedValueOnce({ results: mockOpenAIResponse.results.slice(0, 1) })
+        .mockResolvedValueOnce(mockOpenAIResponse);
+
+      await rerankWithOpenAI.call(mockExecuteFunctions, mockQuery, mockDocuments, 1, 0.0, 0, false);
+      const result = await rerankWithOpenAI.call(mockExecuteFunctions, mockQuery, mockDocuments, 5, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(result).toHaveLength(mockOpenAIResponse.results.length);
+    });
+
+    test('should keep documents below an earlier threshold in the cache', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValueOnce(mockOpenAIResponse);
+
+      await rerankWithOpenAI.call(mockExecuteFunctions, mockQuery, mockDocuments, 10, 0.8, 0, false);
+      const result = await rerankWithOpenAI.call(mockExecuteFunctions, mockQuery, mockDocuments, 10, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+      expect(result).toHaveLength(mockOpenAIResponse.results.length);
+    });
   });
 });
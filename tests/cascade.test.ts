@@ -0,0 +1,80 @@
+/**
+ * Cascade tests
+ * Tests two-stage reranking with a fast first stage and a stronger second stage
+ */
+
+import { rerankDocuments, getServiceProperties } from '../nodes/shared/rerank.helpers';
+import { createTeiScoringMock, mockQuery } from './helpers/mock-helpers';
+
+const docs = [
+  { pageContent: 'The quick brown fox jumps over the lazy dog' },
+  { pageContent: 'Machine learning is a subset of artificial intelligence' },
+  { pageContent: 'Natural language processing enables computers to understand human language' },
+  { pageContent: 'Deep learning uses neural networks with multiple layers' },
+  { pageContent: 'Cooking pasta takes about ten minutes' },
+];
+
+// Second stage prefers the second candidate
+function createCascadeMock(parameters: Record<string, any> = {}) {
+  return createTeiScoringMock({
+    strategy: 'cascade',
+    cascadeFirstService: 'bm25',
+    cascadeSecondService: 'tei',
+    cascadeCandidates: 3,
+    cascadeFirstThreshold: 0.001,
+    ...parameters
+  }, (_, index) => (index === 1 ? 0.9 : 0.4 - index * 0.1));
+}
+
+describe('Cascade', () => {
+  test('should send only first stage candidates to the second stage', async () => {
+    const mockExecuteFunctions = createCascadeMock();
+
+    await rerankDocuments.call(mockExecuteFunctions, 'learning with neural networks', docs, 10, 0.0, 0, false);
+
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+    const body = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body;
+    // Only two documents match any query term; the first stage threshold drops the rest
+    expect(body.texts).toEqual([docs[3].pageContent, docs[1].pageContent]);
+  });
+
+  test('should map second stage results back to the original documents', async () => {
+    const mockExecuteFunctions = createCascadeMock();
+
+    const result = await rerankDocuments.call(mockExecuteFunctions, 'learning with neural networks', docs, 10, 0.0, 0, false);
+
+    expect(result.map(doc => doc._originalIndex)).toEqual([1, 3]);
+    expect(result.map(doc => doc._rerankScore)).toEqual([0.9, 0.4]);
+    expect(result[0].pageContent).toBe(docs[1].pageContent);
+    expect(result[0]._serviceScores.bm25.rank).toBe(2);
+    expect(result[0]._serviceScores.tei).toEqual({ rank: 1, score: 0.9 });
+  });
+
+  test('should limit candidates and apply Top K and threshold to the second stage', async () => {
+    const mockExecuteFunctions = createCascadeMock({ cascadeCandidates: 4, cascadeFirstThreshold: 0 });
+
+    const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, docs, 2, 0.3, 0, false);
+
+    expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toHaveLength(4);
+    expect(result).toHaveLength(2);
+    expect(result.map(doc => doc._rerankScore)).toEqual([0.9, 0.4]);
+  });
+
+  test('should skip the second stage when no candidates pass the first stage', async () => {
+    const mockExecuteFunctions = createCascadeMock();
+
+    const result = await rerankDocuments.call(mockExecuteFunctions, 'quantum chromodynamics', docs, 10, 0.0, 0, false);
+
+    expect(result).toEqual([]);
+    expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalled();
+  });
+
+  test('should show provider parameters for both stages', () => {
+    const endpoints = getServiceProperties().filter(p => p.name === 'teiEndpoint');
+
+    expect(endpoints.map(p => p.displayOptions?.show)).toEqual(expect.arrayContaining([
+      { strategy: ['cascade'], cascadeFirstService: ['tei'] },
+      { strategy: ['cascade'], cascadeSecondService: ['tei'] },
+    ]));
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Deduplication tests
+ * Tests collapsing duplicate documents before reranking
+ */
+
+import { rerankDocuments } from '../nodes/shared/rerank.helpers';
+import { expandDuplicates, findDuplicates } from '../nodes/shared/dedup.helpers';
+import { createTeiScoringMock, mockQuery } from './helpers/mock-helpers';
+
+const overlappingChunks = [
+  { pageContent: 'Machine learning is a subset of artificial intelligence that learns patterns from data' },
+  { pageContent: 'machine learning is a subset of artificial   intelligence, that learns patterns from data!' },
+  { pageContent: 'Neural networks power modern language models' },
+  { pageContent: 'Machine learning is a subset of artificial intelligence that learns patterns from data sets' },
+];
+
+function createDedupMock(parameters: Record<string, any> = {}) {
+  return createTeiScoringMock({ deduplication: 'exact', ...parameters });
+}
+
+describe('Deduplication', () => {
+  describe('findDuplicates', () => {
+    const texts = overlappingChunks.map(doc => doc.pageContent);
+
+    test('should match texts that only differ in case, punctuation and whitespace', () => {
+      expect(findDuplicates(texts, 'exact')).toEqual([-1, 0, -1, -1]);
+    });
+
+    test('should match near duplicates by shingle similarity', () => {
+      expect(findDuplicates(texts, 'near', 0.7)).toEqual([-1, 0, -1, 0]);
+      expect(findDuplicates(texts, 'near', 1)).toEqual([-1, 0, -1, -1]);
+    });
+
+    test('should leave every document alone with none', () => {
+      expect(findDuplicates(['a', 'a'], 'none')).toEqual([-1, -1]);
+    });
+  });
+
+  describe('expandDuplicates', () => {
+    const docs = [{ text: 'a' }, { text: 'a' }, { text: 'b' }];
+    const results = [
+      { text: 'b', _rerankScore: 0.9, _originalIndex: 2 },
+      { text: 'a', _rerankScore: 0.4, _originalIndex: 0 }
+    ];
+
+    test('should list dropped duplicates on their representative', () => {
+      expect(expandDuplicates(results, docs, [-1, 0, -1], false, 10)).toEqual([
+        { text: 'b', _rerankScore: 0.9, _originalIndex: 2 },
+        { text: 'a', _rerankScore: 0.4, _originalIndex: 0, _duplicates: [1] }
+      ]);
+    });
+
+    test('should insert kept duplicates after their representative up to Top K', () => {
+      const expanded = expandDuplicates([...results].reverse(), docs, [-1, 0, -1], true, 2);
+
+      expect(expanded).toEqual([
+        { text: 'a', _rerankScore: 0.4, _originalIndex: 0, _duplicates: [1] },
+        { text: 'a', _rerankScore: 0.4, _originalIndex: 1, _duplicateOf: 0 }
+      ]);
+    });
+  });
+
+  describe('rerankDocuments with deduplication', () => {
+    test('should send one document per group to the service', async () => {
+      const mockExecuteFunctions = createDedupMock({ deduplication: 'near', dedupSimilarity: 0.7 });
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, overlappingChunks, 10, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toEqual([
+        overlappingChunks[0].pageContent,
+        overlappingChunks[2].pageContent
+      ]);
+      expect(result.map(doc => doc._originalIndex)).toEqual([0, 2]);
+      expect(result[0]._duplicates).toEqual([1, 3]);
+    });
+
+    test('should return kept duplicates with a reference to their representative', async () => {
+      const mockExecuteFunctions = createDedupMock({ dedupKeepDuplicates: true });
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, overlappingChunks, 10, 0.0, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([0, 1, 2, 3]);
+      expect(result[1]).toEqual({ ...overlappingChunks[1], _rerankScore: 0.9, _originalIndex: 1, _duplicateOf: 0 });
+      expect(result[2]._rerankScore).toBeCloseTo(0.8, 10);
+    });
+
+    test('should rerank every document by default', async () => {
+      const mockExecuteFunctions = createDedupMock({ deduplication: undefined });
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, overlappingChunks, 10, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toHaveLength(4);
+      expect(result[0]).not.toHaveProperty('_duplicates');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Fallback tests
+ * Tests trying services in order when a reranking service fails
+ */
+
+import { rerankDocuments } from '../nodes/shared/rerank.helpers';
+import { classifyRerankError } from '../nodes/shared/fallback.helpers';
+import { createMockExecuteFunctions, createMockHttpError, createTeiScoringMock, mockDocuments, mockQuery, mockNimResponse } from './helpers/mock-helpers';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+
+function createConnectionError() {
+  const error = new Error('connect ECONNREFUSED 127.0.0.1:8080') as any;
+  error.code = 'ECONNREFUSED';
+  return error;
+}
+
+function createFallbackMock(teiError: any, parameters: Record<string, any> = {}) {
+  return createTeiScoringMock({
+    strategy: 'fallback',
+    fallbackServices: ['tei', 'nim'],
+    nimEndpoint: 'http://localhost:8000/v1/ranking',
+    nimModel: 'nvidia/llama-3.2-nv-rerankqa-1b-v2',
+    ...parameters
+  }, () => {
+    throw teiError;
+  }, mockNimResponse);
+}
+
+describe('Fallback', () => {
+  test('should fall back to the next service on connection errors', async () => {
+    const mockExecuteFunctions = createFallbackMock(createConnectionError());
+
+    const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(2);
+    expect(result.map(doc => doc._originalIndex)).toEqual([2, 0, 4]);
+    expect(result.every(doc => doc._servedBy === 'nim')).toBe(true);
+    expect(mockExecuteFunctions.logger.warn).toHaveBeenCalledWith(expect.stringContaining('Reranking with tei failed'));
+  });
+
+  test('should report the first service when it succeeds', async () => {
+    const mockExecuteFunctions = createFallbackMock(createConnectionError(), { fallbackServices: ['nim', 'tei'] });
+
+    const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+    expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+    expect(result[0]._servedBy).toBe('nim');
+  });
+
+  test('should fall back on rate limits and server errors by default', async () => {
+    for (const statusCode of [429, 503]) {
+      const mockExecuteFunctions = createFallbackMock(createMockHttpError(statusCode, 'Unavailable'));
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      expect(result[0]._servedBy).toBe('nim');
+    }
+  });
+
+  test('should only fall back on the configured error classes', async () => {
+    const unauthorized = createMockHttpError(401, 'Unauthorized', { message: 'invalid api key' });
+
+    await expect(rerankDocuments.call(
+      createFallbackMock(unauthorized),
+      mockQuery,
+      mockDocuments,
+      3,
+      0.0,
+      0,
+      false
+    )).rejects.toThrow(NodeApiError);
+
+    const result = await rerankDocuments.call(
+      createFallbackMock(unauthorized, { fallbackOn: ['clientError'] }),
+      mockQuery,
+      mockDocuments,
+      3,
+      0.0,
+      0,
+      false
+    );
+    expect(result[0]._servedBy).toBe('nim');
+  });
+
+  test('should keep the original order when every service failed', async () => {
+    const mockExecuteFunctions = createFallbackMock(createConnectionError(), { fallbackServices: ['tei'] });
+
+    const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 2, 0.5, 0, false);
+
+    expect(result).toEqual([
+      { ...mockDocuments[0], _rerankScore: 0, _originalIndex: 0, _servedBy: 'original-order' },
+      { ...mockDocuments[1], _rerankScore: 0, _originalIndex: 1, _servedBy: 'original-order' },
+    ]);
+  });
+
+  test('should rethrow the last error without the original order fallback', async () => {
+    const mockExecuteFunctions = createFallbackMock(createConnectionError(), {
+      fallbackServices: ['tei'],
+      fallbackToOriginalOrder: false
+    });
+
+    await expect(rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false))
+      .rejects.toThrow(NodeApiError);
+  });
+
+  test('should not fall back on configuration errors', async () => {
+    const mockExecuteFunctions = createFallbackMock(createConnectionError(), { fallbackServices: ['does-not-exist', 'nim'] });
+
+    await expect(rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false))
+      .rejects.toThrow(NodeOperationError);
+    expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalled();
+  });
+
+  test('should not fall back when a service cannot authenticate before its request', async () => {
+    const mockExecuteFunctions = createFallbackMock(createConnectionError(), {
+      fallbackServices: ['vertex', 'bm25'],
+      vertexProjectId: 'my-project'
+    });
+
+    // No Google API credential is configured
+    await expect(rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false))
+      .rejects.toThrow(NodeOperationError);
+
+    mockExecuteFunctions.getCredentials.mockResolvedValue({ email: 'ranker@my-project.iam.gserviceaccount.com', privateKey: 'not a key' });
+    await expect(rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false))
+      .rejects.toThrow('the private key cannot sign requests');
+    expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalled();
+    expect(mockExecuteFunctions.logger.warn).not.toHaveBeenCalled();
+  });
+
+  test('should reject an empty service list', async () => {
+    await expect(rerankDocuments.call(
+      createFallbackMock(createConnectionError(), { fallbackServices: [] }),
+      mockQuery,
+      mockDocuments,
+      3,
+      0.0,
+      0,
+      false
+    )).rejects.toThrow('Select at least one service to try');
+  });
+
+  describe('classifyRerankError', () => {
+    const node = createMockExecuteFunctions().getNode();
+
+    test('should classify API errors by status code', () => {
+      expect(classifyRerankError(new NodeApiError(node, createConnectionError()))).toBe('connection');
+      expect(classifyRerankError(new NodeApiError(node, createMockHttpError(429, 'Too many requests')))).toBe('rateLimit');
+      expect(classifyRerankError(new NodeApiError(node, createMockHttpError(502, 'Bad gateway')))).toBe('serverError');
+      expect(classifyRerankError(new NodeApiError(node, createMockHttpError(404, 'Not found')))).toBe('clientError');
+    });
+
+    test('should not classify other errors', () => {
+      expect(classifyRerankError(new NodeOperationError(node, 'Unsupported service: x'))).toBeUndefined();
+      expect(classifyRerankError(new Error('Unknown credential type'))).toBeUndefined();
+    });
+  });
+});
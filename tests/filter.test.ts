@@ -0,0 +1,86 @@
+/**
+ * Metadata filter tests
+ * Tests dropping documents locally before they are sent for reranking
+ */
+
+import { rerankDocuments } from '../nodes/shared/rerank.helpers';
+import { filterDocuments } from '../nodes/shared/filter.helpers';
+import { createTeiScoringMock, mockQuery } from './helpers/mock-helpers';
+
+const docs = [
+  { pageContent: 'Tenant A handbook', metadata: { tenantId: 'a', level: 1, updatedAt: '2025-01-10', groups: ['staff'] } },
+  { pageContent: 'Tenant B handbook', metadata: { tenantId: 'b', level: 2, updatedAt: '2025-03-01' } },
+  { pageContent: 'Tenant A salaries', metadata: { tenantId: 'a', level: 3, updatedAt: '2024-11-30', groups: ['hr'] } },
+  { pageContent: 'Unlabeled memo', metadata: {} },
+];
+
+describe('Metadata Filters', () => {
+  describe('filterDocuments', () => {
+    test('should keep documents equal to a value', () => {
+      expect(filterDocuments(docs, [{ field: 'metadata.tenantId', operator: 'equals', value: 'a' }])).toEqual([0, 2]);
+      expect(filterDocuments(docs, [{ field: 'metadata.groups', operator: 'equals', value: 'hr' }])).toEqual([2]);
+    });
+
+    test('should keep documents matching one of several values', () => {
+      expect(filterDocuments(docs, [{ field: 'metadata.tenantId', operator: 'in', value: 'b, c' }])).toEqual([1]);
+      expect(filterDocuments(docs, [{ field: 'metadata.groups', operator: 'in', value: 'staff,hr' }])).toEqual([0, 2]);
+    });
+
+    test('should keep numbers and dates within a range', () => {
+      expect(filterDocuments(docs, [{ field: 'metadata.level', operator: 'range', min: '', max: '2' }])).toEqual([0, 1]);
+      expect(filterDocuments(docs, [{ field: 'metadata.updatedAt', operator: 'range', min: '2025-01-01', max: '' }])).toEqual([0, 1]);
+      expect(filterDocuments(docs, [{ field: 'metadata.tenantId', operator: 'range', min: '1' }])).toEqual([]);
+    });
+
+    test('should require every condition and drop documents missing a field', () => {
+      expect(filterDocuments(docs, [
+        { field: 'metadata.tenantId', operator: 'exists' },
+        { field: 'metadata.level', operator: 'range', min: '2', max: '3' },
+      ])).toEqual([1, 2]);
+      expect(filterDocuments(docs, [{ field: '', operator: 'exists' }])).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  describe('rerankDocuments with filters', () => {
+    function createFilterMock(conditions: any[], parameters: Record<string, any> = {}) {
+      return createTeiScoringMock({ metadataFilters: { conditions }, ...parameters }, (_, index) => 0.5 + index * 0.1);
+    }
+
+    test('should only send matching documents and keep their original indices', async () => {
+      const mockExecuteFunctions = createFilterMock([{ field: 'metadata.tenantId', operator: 'equals', value: 'a' }]);
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, docs, 10, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toEqual([
+        'Tenant A handbook',
+        'Tenant A salaries'
+      ]);
+      expect(result.map(doc => doc._originalIndex)).toEqual([2, 0]);
+      expect(result[0].pageContent).toBe('Tenant A salaries');
+    });
+
+    test('should point duplicates of filtered documents at their original indices', async () => {
+      const mockExecuteFunctions = createFilterMock(
+        [{ field: 'metadata.tenantId', operator: 'equals', value: 'a' }],
+        { deduplication: 'exact', dedupKeepDuplicates: true }
+      );
+      const copies = [docs[1], docs[0], { ...docs[0] }];
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, copies, 10, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toEqual(['Tenant A handbook']);
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2]);
+      expect(result[0]._duplicates).toEqual([2]);
+      expect(result[1]._duplicateOf).toBe(1);
+    });
+
+    test('should not call the service when every document is filtered out', async () => {
+      const mockExecuteFunctions = createFilterMock([{ field: 'metadata.tenantId', operator: 'equals', value: 'z' }]);
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, docs, 10, 0.0, 0, false);
+
+      expect(result).toEqual([]);
+      expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalled();
+    });
+  });
+});
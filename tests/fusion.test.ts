@@ -0,0 +1,155 @@
+/**
+ * Fusion tests
+ * Tests combining the rankings of several reranking services
+ */
+
+import { rerankDocuments, getServiceProperties, getServiceCredentials, clearCache } from '../nodes/shared/rerank.helpers';
+import { fuseRankings, parseFusionWeights } from '../nodes/shared/fusion.helpers';
+import { createTeiScoringMock, mockDocuments, mockQuery, mockTeiResponse, mockNimResponse } from './helpers/mock-helpers';
+import { NodeOperationError } from 'n8n-workflow';
+
+function createFusionMock(parameters: Record<string, any> = {}) {
+  return createTeiScoringMock({
+    strategy: 'fusion',
+    fusionServices: ['tei', 'nim'],
+    nimEndpoint: 'http://localhost:8000/v1/ranking',
+    nimModel: 'nvidia/llama-3.2-nv-rerankqa-1b-v2',
+    ...parameters
+  }, (_, index) => mockTeiResponse.find(result => result.index === index)!.score, mockNimResponse);
+}
+
+describe('Fusion', () => {
+  describe('fuseRankings', () => {
+    const rankings = [
+      { service: 'a', weight: 1, results: [{ _originalIndex: 0, _rerankScore: 0.9 }, { _originalIndex: 1, _rerankScore: 0.2 }] },
+      { service: 'b', weight: 1, results: [{ _originalIndex: 1, _rerankScore: 0.8 }, { _originalIndex: 2, _rerankScore: 0.7 }] },
+    ];
+
+    test('should sum reciprocal ranks', () => {
+      const fused = fuseRankings(rankings, 'rrf', 60);
+
+      expect(fused.map(result => result.index)).toEqual([1, 0, 2]);
+      expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61, 10);
+      expect(fused[0].services).toEqual({ a: { rank: 2, score: 0.2 }, b: { rank: 1, score: 0.8 } });
+      expect(fused[1].services).toEqual({ a: { rank: 1, score: 0.9 } });
+    });
+
+    test('should sum weighted scores', () => {
+      const fused = fuseRankings(
+        [rankings[0], { ...rankings[1], weight: 0.5 }],
+        'weighted'
+      );
+
+      expect(fused.map(result => result.index)).toEqual([0, 1, 2]);
+      expect(fused[0].score).toBe(0.9);
+      expect(fused[1].score).toBeCloseTo(0.6, 10);
+      expect(fused[2].score).toBe(0.35);
+    });
+  });
+
+  describe('parseFusionWeights', () => {
+    test('should parse service=weight pairs', () => {
+      expect(parseFusionWeights('cohere=1, bm25 = 0.5')).toEqual({ cohere: 1, bm25: 0.5 });
+      expect(parseFusionWeights('')).toEqual({});
+    });
+
+    test('should report malformed entries', () => {
+      expect(parseFusionWeights('cohere')).toBe('Invalid fusion weight "cohere", expected service=weight');
+      expect(parseFusionWeights('cohere=high')).toBe('Invalid fusion weight "cohere=high", expected service=weight');
+    });
+  });
+
+  describe('rerankDocuments with fusion', () => {
+    test('should rank all documents with every service and fuse with RRF', async () => {
+      const mockExecuteFunctions = createFusionMock();
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      const bodies = mockExecuteFunctions.helpers.httpRequest.mock.calls.map((call: any[]) => call[0].body);
+      expect(bodies[0].texts).toHaveLength(mockDocuments.length);
+      expect(bodies[1].passages).toHaveLength(mockDocuments.length);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([2, 1, 0]);
+      expect(result[0]._rerankScore).toBeCloseTo(1 / 62 + 1 / 61, 10);
+      expect(result[0]._serviceScores.tei).toEqual({ rank: 2, score: 0.81 });
+      expect(result[0]._serviceScores.nim.rank).toBe(1);
+      expect(result[0]._serviceScores.nim.score).toBeCloseTo(0.9608, 4);
+      expect(result[0].pageContent).toBe(mockDocuments[2].pageContent);
+    });
+
+    test('should apply weights and the threshold to the fused score', async () => {
+      const mockExecuteFunctions = createFusionMock({
+        fusionMethod: 'weighted',
+        fusionWeights: 'tei=1, nim=0'
+      });
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 10, 0.4, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 3]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.97, 0.81, 0.45]);
+    });
+
+    test('should reject fusion without services or with malformed weights', async () => {
+      await expect(rerankDocuments.call(
+        createFusionMock({ fusionServices: [] }),
+        mockQuery,
+        mockDocuments,
+        3,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow(NodeOperationError);
+
+      await expect(rerankDocuments.call(
+        createFusionMock({ fusionWeights: 'tei:1' }),
+        mockQuery,
+        mockDocuments,
+        3,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow('Invalid fusion weight "tei:1"');
+    });
+
+    test('should rank all documents even after a smaller cached request', async () => {
+      clearCache();
+      const single = createFusionMock({ enableCache: true, strategy: 'single', service: 'bm25' });
+      await rerankDocuments.call(single, mockQuery, mockDocuments, 1, 0.0, 0, false);
+
+      const fused = createFusionMock({ enableCache: true, fusionServices: ['bm25'] });
+      const result = await rerankDocuments.call(fused, mockQuery, mockDocuments, 10, 0.0, 0, false);
+
+      expect(result).toHaveLength(mockDocuments.length);
+    });
+
+    test('should use the single service by default', async () => {
+      const mockExecuteFunctions = createFusionMock({ strategy: undefined, service: 'tei' });
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 3]);
+      expect(result[0]).not.toHaveProperty('_serviceScores');
+    });
+  });
+
+  describe('Node description', () => {
+    test('should show provider parameters for services selected for fusion', () => {
+      const endpoints = getServiceProperties().filter(p => p.name === 'teiEndpoint');
+
+      expect(endpoints.map(p => p.displayOptions).slice(0, 2)).toEqual([
+        { show: { service: ['tei'] }, hide: { strategy: ['fusion', 'cascade', 'fallback'] } },
+        { show: { strategy: ['fusion'], fusionServices: ['tei'] } },
+      ]);
+    });
+
+    test('should show provider credentials for services selected for fusion', () => {
+      const credentials = getServiceCredentials().filter(c => c.name === 'voyageRerankerApi');
+
+      expect(credentials.map(c => c.displayOptions?.show).slice(0, 2)).toEqual([
+        { service: ['voyage'] },
+        { strategy: ['fusion'], fusionServices: ['voyage'] },
+      ]);
+    });
+  });
+});
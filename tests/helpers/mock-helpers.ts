@@ -50,6 +50,80 @@ export const mockCohereResponse = {
   ]
 };
 
+// Mock Jina rerank response (with return_documents enabled)
+export const mockJinaResponse = {
+  model: 'jina-reranker-v2-base-multilingual',
+  usage: { total_tokens: 120 },
+  results: [
+    { index: 1, relevance_score: 0.91, document: { text: 'Machine learning is a subset of artificial intelligence' } },
+    { index: 2, relevance_score: 0.76, document: { text: 'Natural language processing enables computers to understand human language' } },
+    { index: 0, relevance_score: 0.33, document: { text: 'The quick brown fox jumps over the lazy dog' } }
+  ]
+};
+
+// Mock Voyage rerank response (data[] instead of results[])
+export const mockVoyageResponse = {
+  object: 'list',
+  data: [
+    { index: 1, relevance_score: 0.88 },
+    { index: 3, relevance_score: 0.61 },
+    { index: 0, relevance_score: 0.24 }
+  ],
+  model: 'rerank-2.5',
+  usage: { total_tokens: 96 }
+};
+
+// Mock Hugging Face TEI /rerank response (bare array, one entry per text)
+export const mockTeiResponse = [
+  { index: 1, score: 0.97 },
+  { index: 2, score: 0.81 },
+  { index: 3, score: 0.45 },
+  { index: 0, score: 0.07 },
+  { index: 4, score: 0.02 }
+];
+
+// Mock Bedrock Agent Runtime Rerank response
+export const mockBedrockResponse = {
+  results: [
+    { index: 2, relevanceScore: 0.93 },
+    { index: 0, relevanceScore: 0.58 },
+    { index: 4, relevanceScore: 0.12 }
+  ]
+};
+
+// Mock NVIDIA NIM /v1/ranking response (raw logits for every passage)
+export const mockNimResponse = {
+  rankings: [
+    { index: 2, logit: 3.2 },
+    { index: 0, logit: 0 },
+    { index: 4, logit: -1.5 },
+    { index: 1, logit: -6.1 },
+    { index: 3, logit: -8.4 }
+  ]
+};
+
+// Mock Pinecone Inference rerank response
+export const mockPineconeResponse = {
+  model: 'bge-reranker-v2-m3',
+  data: [
+    { index: 3, score: 0.82, document: { text: 'Deep learning uses neural networks with multiple layers' } },
+    { index: 1, score: 0.64, document: { text: 'Machine learning is a subset of artificial intelligence' } },
+    { index: 0, score: 0.03, document: { text: 'The quick brown fox jumps over the lazy dog' } }
+  ],
+  usage: { rerank_units: 1 }
+};
+
+// Mock Mixedbread reranking response
+export const mockMixedbreadResponse = {
+  model: 'mixedbread-ai/mxbai-rerank-large-v2',
+  data: [
+    { index: 2, score: 0.77, object: 'rank_result' },
+    { index: 3, score: 0.41, object: 'rank_result' },
+    { index: 1, score: 0.19, object: 'rank_result' }
+  ],
+  object: 'list'
+};
+
 // Create mock IExecuteFunctions
 export function createMockExecuteFunctions(nodeParameters: Record<string, any> = {}): any {
   const mockExecuteFunctions = {
@@ -71,12 +145,39 @@ export function createMockExecuteFunctions(nodeParameters: Record<string, any> =
       if (type === 'cohereApi' || type === 'cohereRerankerApi') {
         return Promise.resolve({ apiKey: 'mock-cohere-api-key' });
       }
+      if (type === 'jinaRerankerApi') {
+        return Promise.resolve({ apiKey: 'mock-jina-api-key' });
+      }
+      if (type === 'voyageRerankerApi') {
+        return Promise.resolve({ apiKey: 'mock-voyage-api-key' });
+      }
+      if (type === 'pineconeRerankerApi') {
+        return Promise.resolve({ apiKey: 'mock-pinecone-api-key' });
+      }
+      if (type === 'mixedbreadRerankerApi') {
+        return Promise.resolve({ apiKey: 'mock-mixedbread-api-key' });
+      }
+      if (type === 'aws') {
+        return Promise.resolve({
+          region: 'eu-central-1',
+          accessKeyId: 'AKIDEXAMPLE',
+          secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+          temporaryCredentials: false,
+        });
+      }
       return Promise.reject(new Error(`Unknown credential type: ${type}`));
     }),
     
     helpers: {
       httpRequest: jest.fn().mockResolvedValue({})
     } as any,
+
+    logger: {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    },
     
     getInputData: jest.fn().mockReturnValue([
       {
@@ -101,6 +202,30 @@ export function createMockExecuteFunctions(nodeParameters: Record<string, any> =
   return mockExecuteFunctions;
 }
 
+export const mockTeiEndpoint = 'http://localhost:8080/rerank';
+
+// Helper to create mock IExecuteFunctions reranking with TEI. Every text sent
+// to TEI is scored by scoreText (a throw rejects the request); requests to
+// other endpoints resolve to otherResponse.
+export function createTeiScoringMock(
+  nodeParameters: Record<string, any> = {},
+  scoreText: (text: string, index: number) => number = (_text, index) => 0.9 - index * 0.1,
+  otherResponse?: any
+): any {
+  const mockExecuteFunctions = createMockExecuteFunctions({
+    enableCache: false,
+    service: 'tei',
+    teiEndpoint: mockTeiEndpoint,
+    ...nodeParameters
+  });
+  mockExecuteFunctions.helpers.httpRequest.mockImplementation(async (request: any) =>
+    request.url === mockTeiEndpoint
+      ? request.body.texts.map((text: string, index: number) => ({ index, score: scoreText(text, index) }))
+      : otherResponse
+  );
+  return mockExecuteFunctions;
+}
+
 // Helper to create mock HTTP responses
 export function createMockHttpResponse(data: any, status: number = 200) {
   return {
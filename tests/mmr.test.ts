@@ -0,0 +1,101 @@
+/**
+ * MMR tests
+ * Tests diversifying reranked results with Maximal Marginal Relevance
+ */
+
+import { rerankDocuments } from '../nodes/shared/rerank.helpers';
+import { UniversalRerankerFlow } from '../nodes/UniversalRerankerFlow/UniversalRerankerFlow.node';
+import { UniversalRerankerProvider } from '../nodes/UniversalRerankerProvider/UniversalRerankerProvider.node';
+import { selectWithMmr } from '../nodes/shared/mmr.helpers';
+import { createTeiScoringMock, mockQuery, mockTeiResponse } from './helpers/mock-helpers';
+
+const duplicateDocuments = [
+  { pageContent: 'Machine learning is a subset of artificial intelligence' },
+  { pageContent: 'Machine learning is a subset of artificial intelligence.' },
+  { pageContent: 'Neural networks power modern language models' },
+  { pageContent: 'Gradient boosting works well on tabular data' },
+];
+
+function createMmrMock(parameters: Record<string, any> = {}) {
+  return createTeiScoringMock({ enableMmr: true, mmrLambda: 0.5, ...parameters }, (_, index) => [0.95, 0.94, 0.6, 0.3][index]);
+}
+
+describe('MMR', () => {
+  describe('selectWithMmr', () => {
+    const relevance = [1, 0.9, 0.5];
+    const similarity = (a: number, b: number) => (a + b === 1 ? 1 : 0);
+
+    test('should skip documents similar to ones already selected', () => {
+      const selected = selectWithMmr(relevance, similarity, 2, 0.5);
+
+      expect(selected.map(({ index }) => index)).toEqual([0, 2]);
+      expect(selected[0].score).toBe(0.5);
+      expect(selected[1].score).toBe(0);
+    });
+
+    test('should keep the relevance order with lambda 1', () => {
+      expect(selectWithMmr(relevance, similarity, 3, 1).map(({ index }) => index)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('rerankDocuments with MMR', () => {
+    test('should rerank every document and diversify the Top K lexically', async () => {
+      const mockExecuteFunctions = createMmrMock();
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, duplicateDocuments, 2, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body.texts).toHaveLength(4);
+      expect(result.map(doc => doc._originalIndex)).toEqual([0, 2]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.95, 0.6]);
+      expect(result[0]._mmrScore).toBe(0.5);
+    });
+
+    test('should measure similarity with embeddings', async () => {
+      const mockExecuteFunctions = createMmrMock({
+        mmrSimilarity: 'embeddings',
+        mmrEmbeddingEndpoint: 'http://localhost:11434/v1/embeddings',
+        mmrEmbeddingModel: 'nomic-embed-text'
+      });
+      mockExecuteFunctions.helpers.httpRequest
+        .mockResolvedValueOnce(mockTeiResponse.slice(0, 4))
+        .mockResolvedValueOnce({
+          data: [
+            { index: 0, embedding: [1, 0] },
+            { index: 1, embedding: [1, 0] },
+            { index: 2, embedding: [0.8, 0.6] },
+            { index: 3, embedding: [0, 1] }
+          ]
+        });
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, duplicateDocuments, 2, 0.0, 0, false);
+
+      const embeddingRequest = mockExecuteFunctions.helpers.httpRequest.mock.calls[1][0];
+      expect(embeddingRequest.url).toBe('http://localhost:11434/v1/embeddings');
+      expect(embeddingRequest.body.model).toBe('nomic-embed-text');
+      expect(embeddingRequest.body.input).toEqual([
+        duplicateDocuments[1].pageContent,
+        duplicateDocuments[2].pageContent,
+        duplicateDocuments[3].pageContent,
+        duplicateDocuments[0].pageContent
+      ]);
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 0]);
+    });
+
+    test('should not add MMR scores when disabled', async () => {
+      const mockExecuteFunctions = createMmrMock({ enableMmr: false });
+
+      const result = await rerankDocuments.call(mockExecuteFunctions, mockQuery, duplicateDocuments, 2, 0.0, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([0, 1]);
+      expect(result[0]).not.toHaveProperty('_mmrScore');
+    });
+  });
+
+  test('should show the OpenAI API credential for embeddings whatever the service', () => {
+    for (const node of [new UniversalRerankerFlow(), new UniversalRerankerProvider()]) {
+      const credentials = node.description.credentials?.filter(c => c.name === 'openAiApi');
+
+      expect(credentials?.map(c => c.displayOptions?.show)).toContainEqual({ enableMmr: [true], mmrSimilarity: ['embeddings'] });
+    }
+  });
+});
@@ -52,6 +52,14 @@ describe('UniversalRerankerFlow Node Execution', () => {
       expect((authenticationType?.options as any[])?.map(option => option.value)).toEqual(['bearer', 'apiKey', 'none']);
     });
 
+    test('should allow negative thresholds for raw logits and similarities', () => {
+      const threshold = node.description.properties.find(p => p.name === 'threshold');
+
+      expect(threshold?.typeOptions?.minValue).toBeUndefined();
+      expect(threshold?.typeOptions?.maxValue).toBeUndefined();
+      expect(threshold?.displayOptions?.show?.enableThreshold).toEqual([true]);
+    });
+
     test('should have correct credential configuration', () => {
       const cohereCredential = node.description.credentials?.find(c => c.name === 'cohereApi');
       
@@ -331,6 +339,25 @@ describe('UniversalRerankerFlow Node Execution', () => {
       });
     });
 
+    test('should keep every document when threshold filtering is off', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        query: mockQuery,
+        documentsField: 'documents',
+        service: 'openai-compatible',
+        endpoint: 'http://localhost:8000/v1/rerank',
+        model: 'test-model',
+        topK: 10,
+        enableThreshold: false,
+        threshold: 0.8
+      });
+
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockOpenAIResponse);
+
+      const result = await node.execute.call(mockExecuteFunctions);
+
+      expect(result[0][0].json.rerankedCount).toBe(mockOpenAIResponse.results.length);
+    });
+
     test('should respect topK parameter', async () => {
       mockExecuteFunctions = createMockExecuteFunctions({
         query: mockQuery,
@@ -87,6 +87,13 @@ describe('UniversalRerankerProvider Node', () => {
       
       expect(cacheTtlProperty?.displayOptions?.show?.enableCache).toEqual([true]);
     });
+
+    test('should allow negative thresholds for raw logits and similarities', () => {
+      const threshold = provider.description.properties.find(p => p.name === 'threshold');
+
+      expect(threshold?.typeOptions?.minValue).toBeUndefined();
+      expect(threshold?.displayOptions?.show?.enableThreshold).toEqual([true]);
+    });
   });
 
   describe('Provider Supply Data', () => {
@@ -167,6 +174,28 @@ describe('UniversalRerankerProvider Node', () => {
       expect(mockSupplyDataFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
     });
 
+    test('should keep every document when threshold filtering is off', async () => {
+      mockSupplyDataFunctions = createMockSupplyDataFunctions({
+        service: 'openai-compatible',
+        endpoint: 'http://localhost:8000/v1/rerank',
+        model: 'test-model',
+        topK: 10,
+        enableThreshold: false,
+        threshold: 0.9,
+        includeOriginalScores: false,
+        enableCache: false
+      });
+
+      mockSupplyDataFunctions.helpers.httpRequest.mockResolvedValue(mockOpenAIResponse);
+
+      const supplyData = await provider.supplyData.call(mockSupplyDataFunctions, 0);
+      const reranker = supplyData.response as any;
+
+      const result = await reranker.compressDocuments(mockDocuments, mockQuery);
+
+      expect(result).toHaveLength(mockOpenAIResponse.results.length);
+    });
+
     test('should rerank documents using Cohere service', async () => {
       mockSupplyDataFunctions = createMockSupplyDataFunctions({
         service: 'cohere',
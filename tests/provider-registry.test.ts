@@ -0,0 +1,160 @@
+/**
+ * Provider registry tests
+ * Tests adapter registration and resolution of services by id
+ */
+
+import {
+  rerankWithProvider,
+  registerRerankProvider,
+  getRerankProvider,
+  getServiceOptions,
+  getServiceProperties,
+  getServiceCredentials,
+  clearCache,
+  RerankProvider,
+} from '../nodes/shared/rerank.helpers';
+import { createMockExecuteFunctions, mockDocuments, mockQuery } from './helpers/mock-helpers';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+
+const internalProvider: RerankProvider = {
+  id: 'internal-test',
+  name: 'Internal Test',
+  description: 'Test-only provider',
+  credentials: [{ name: 'internalTestApi', required: false }],
+  properties: [
+    {
+      displayName: 'Internal Endpoint',
+      name: 'internalEndpoint',
+      type: 'string',
+      default: 'http://internal/score',
+    },
+  ],
+  getCacheNamespace(itemIndex) {
+    return `internal-test:${this.getNodeParameter('internalEndpoint', itemIndex, 'http://internal/score')}`;
+  },
+  async buildRequest({ query, documentTexts, itemIndex }) {
+    return {
+      method: 'POST',
+      url: this.getNodeParameter('internalEndpoint', itemIndex, 'http://internal/score') as string,
+      body: { q: query, passages: documentTexts },
+      json: true,
+    };
+  },
+  parseResponse(response) {
+    return response.scores.map((score: number, index: number) => ({ index, score }));
+  },
+};
+
+describe('Provider Registry', () => {
+  beforeAll(() => {
+    registerRerankProvider(internalProvider);
+  });
+
+  beforeEach(() => {
+    clearCache();
+  });
+
+  describe('Built-in Providers', () => {
+    test('should register OpenAI-compatible and Cohere providers', () => {
+      expect(getRerankProvider('openai-compatible')).toBeDefined();
+      expect(getRerankProvider('cohere')).toBeDefined();
+    });
+
+    test('should expose registered providers as service options', () => {
+      const values = getServiceOptions().map(option => option.value);
+
+      expect(values).toEqual(expect.arrayContaining(['openai-compatible', 'cohere', 'internal-test']));
+    });
+  });
+
+  describe('Node Description Helpers', () => {
+    test('should scope provider properties to their service', () => {
+      const endpoint = getServiceProperties().find(p => p.name === 'internalEndpoint');
+
+      expect(endpoint?.displayOptions?.show?.service).toEqual(['internal-test']);
+    });
+
+    test('should keep additional display conditions declared by the provider', () => {
+      const templatePreset = getServiceProperties().find(p => p.name === 'templatePreset');
+
+      expect(templatePreset?.displayOptions?.show).toEqual({
+        service: ['openai-compatible'],
+        enableCustomTemplates: [true],
+      });
+    });
+
+    test('should scope provider credentials to their service', () => {
+      const credential = getServiceCredentials().find(c => c.name === 'internalTestApi');
+
+      expect(credential?.displayOptions?.show?.service).toEqual(['internal-test']);
+    });
+  });
+
+  describe('rerankWithProvider', () => {
+    test('should use the adapter to build the request and parse the response', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({ enableCache: false });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ scores: [0.1, 0.9, 0.5, 0.3, 0.2] });
+
+      const result = await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'internal-test',
+        mockQuery,
+        mockDocuments,
+        10,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('http://internal/score');
+      expect(call.body.q).toBe(mockQuery);
+      expect(call.body.passages).toHaveLength(mockDocuments.length);
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 3, 4, 0]);
+    });
+
+    test('should cache results under the adapter namespace', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({ enableCache: true, cacheTtl: 5 });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ scores: [0.1, 0.9, 0.5, 0.3, 0.2] });
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'internal-test', mockQuery, mockDocuments, 10, 0.0, 0, false);
+      await rerankWithProvider.call(mockExecuteFunctions, 'internal-test', mockQuery, mockDocuments, 10, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    test('should prefix API errors with the provider name', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({ enableCache: false });
+      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('socket hang up'));
+
+      const promise = rerankWithProvider.call(
+        mockExecuteFunctions,
+        'internal-test',
+        mockQuery,
+        mockDocuments,
+        10,
+        0.0,
+        0,
+        false
+      );
+
+      await expect(promise).rejects.toThrow(NodeApiError);
+      await expect(promise).rejects.toThrow('Internal Test request failed');
+    });
+
+    test('should reject unknown services', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({ enableCache: false });
+
+      await expect(rerankWithProvider.call(
+        mockExecuteFunctions,
+        'does-not-exist',
+        mockQuery,
+        mockDocuments,
+        10,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow(NodeOperationError);
+    });
+  });
+});
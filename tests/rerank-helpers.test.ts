@@ -3,15 +3,24 @@
  * Tests the core reranking functionality for OpenAI-compatible and Cohere services
  */
 
-import { rerankWithOpenAI, rerankWithCohere } from '../nodes/shared/rerank.helpers';
+import { rerankWithOpenAI, rerankWithCohere, rerankWithProvider } from '../nodes/shared/rerank.helpers';
 import { 
   createMockExecuteFunctions, 
   mockDocuments, 
   mockQuery, 
   mockOpenAIResponse, 
   mockCohereResponse,
+  mockJinaResponse,
+  mockVoyageResponse,
+  mockTeiResponse,
+  mockBedrockResponse,
+  mockNimResponse,
+  mockPineconeResponse,
+  mockMixedbreadResponse,
   createMockHttpError
 } from './helpers/mock-helpers';
+import { signAwsRequest } from '../nodes/shared/aws.helpers';
+import { generateKeyPairSync, createVerify } from 'crypto';
 import { NodeApiError } from 'n8n-workflow';
 
 describe('Rerank Helper Functions', () => {
@@ -258,6 +267,69 @@ describe('Rerank Helper Functions', () => {
       )).rejects.toThrow(NodeApiError);
     });
 
+    test('should send query/document pairs in Score API format', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        apiFormat: 'score',
+        authenticationType: 'none',
+        enableCache: false,
+        enableCustomTemplates: false,
+        endpoint: 'http://localhost:8000/v1/score',
+        model: 'BAAI/bge-reranker-v2-m3'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        id: 'score-1',
+        object: 'list',
+        data: [
+          { index: 0, object: 'score', score: 0.12 },
+          { index: 1, object: 'score', score: 0.93 },
+          { index: 2, object: 'score', score: 0.71 },
+          { index: 3, object: 'score', score: 0.55 },
+          { index: 4, object: 'score', score: 0.02 }
+        ]
+      });
+
+      const result = await rerankWithOpenAI.call(
+        mockExecuteFunctions,
+        mockQuery,
+        mockDocuments,
+        3,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('http://localhost:8000/v1/score');
+      expect(call.body.model).toBe('BAAI/bge-reranker-v2-m3');
+      expect(call.body.text_1).toBe(mockQuery);
+      expect(call.body.text_2).toHaveLength(mockDocuments.length);
+      expect(call.body).not.toHaveProperty('top_n');
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 3]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.93, 0.71, 0.55]);
+    });
+
+    test('should apply templates in Score API format', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        apiFormat: 'score',
+        enableCache: false,
+        enableCustomTemplates: true,
+        templatePreset: 'custom',
+        queryPrefix: '[Q] ',
+        documentPrefix: '[D] ',
+        endpoint: 'http://localhost:8000/v1/score',
+        model: 'test-model'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        data: [{ index: 0, score: 0.5 }]
+      });
+
+      await rerankWithOpenAI.call(mockExecuteFunctions, 'query', [{ pageContent: 'doc' }], 5, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body.text_1).toBe('[Q] query');
+      expect(call.body.text_2).toEqual(['[D] doc']);
+    });
+
     test('should limit top_n to document count', async () => {
       const smallDocSet = mockDocuments.slice(0, 2);
       mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
@@ -404,6 +476,62 @@ describe('Rerank Helper Functions', () => {
       expect(call.headers.Authorization).toBe('Bearer fallback-api-key');
     });
 
+    test('should call the v2 endpoint on a custom base URL with max_tokens_per_doc', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        cohereModel: 'rerank-v3.5',
+        cohereApiVersion: 'v2',
+        cohereBaseUrl: 'https://cohere-rerank.eastus.models.ai.azure.com/',
+        cohereMaxTokensPerDoc: 512
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockCohereResponse);
+
+      await rerankWithCohere.call(mockExecuteFunctions, mockQuery, mockDocuments, 5, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('https://cohere-rerank.eastus.models.ai.azure.com/v2/rerank');
+      expect(call.body.max_tokens_per_doc).toBe(512);
+    });
+
+    test('should not send max_tokens_per_doc to v1', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockCohereResponse);
+
+      await rerankWithCohere.call(mockExecuteFunctions, mockQuery, mockDocuments, 5, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body).not.toHaveProperty('max_tokens_per_doc');
+    });
+
+    test('should send YAML documents built from selected fields', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        cohereModel: 'rerank-v3.5',
+        cohereApiVersion: 'v2',
+        cohereDocumentFormat: 'yaml',
+        cohereYamlFields: 'metadata.title, pageContent, metadata.missing'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ results: [{ index: 0, relevance_score: 0.9 }] });
+
+      await rerankWithCohere.call(
+        mockExecuteFunctions,
+        mockQuery,
+        [
+          { pageContent: 'Line one\nLine two', metadata: { title: 'Policy: Travel' } },
+          { text: 'No fields here' }
+        ],
+        5,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body.documents).toEqual([
+        'metadata.title: "Policy: Travel"\npageContent: |\n  Line one\n  Line two',
+        'No fields here',
+      ]);
+    });
+
     test('should handle Cohere API errors', async () => {
       const cohereError = createMockHttpError(429, 'Rate limit exceeded', {
         message: 'Too many requests'
@@ -422,6 +550,1017 @@ describe('Rerank Helper Functions', () => {
     });
   });
 
+  describe('Jina AI provider', () => {
+    let mockExecuteFunctions: any;
+
+    beforeEach(() => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        jinaModel: 'jina-reranker-v2-base-multilingual'
+      });
+    });
+
+    test('should make correct API call to Jina', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockJinaResponse);
+
+      await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'jina',
+        mockQuery,
+        mockDocuments,
+        3,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('https://api.jina.ai/v1/rerank');
+      expect(call.headers.Authorization).toBe('Bearer mock-jina-api-key');
+      expect(call.body).toMatchObject({
+        model: 'jina-reranker-v2-base-multilingual',
+        query: mockQuery,
+        top_n: 3,
+        return_documents: false,
+      });
+      expect(call.body.documents).toHaveLength(mockDocuments.length);
+    });
+
+    test('should handle custom model parameter', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        jinaModel: 'custom',
+        jinaCustomModel: 'jina-reranker-v1-turbo-en'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockJinaResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'jina', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body.model).toBe('jina-reranker-v1-turbo-en');
+    });
+
+    test('should expose returned documents when requested', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        jinaModel: 'jina-reranker-m0',
+        jinaReturnDocuments: true
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockJinaResponse);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'jina', mockQuery, mockDocuments, 3, 0.5, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body.return_documents).toBe(true);
+      expect(result).toHaveLength(2);
+      expect(result[0]._rerankScore).toBe(0.91);
+      expect(result[0]._originalIndex).toBe(1);
+      expect(result[0]._returnedDocument).toBe('Machine learning is a subset of artificial intelligence');
+    });
+  });
+
+  describe('Voyage AI provider', () => {
+    let mockExecuteFunctions: any;
+
+    beforeEach(() => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        voyageModel: 'rerank-2.5'
+      });
+    });
+
+    test('should make correct API call to Voyage', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockVoyageResponse);
+
+      await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'voyage',
+        mockQuery,
+        mockDocuments,
+        3,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('https://api.voyageai.com/v1/rerank');
+      expect(call.headers.Authorization).toBe('Bearer mock-voyage-api-key');
+      expect(call.body).toMatchObject({
+        model: 'rerank-2.5',
+        query: mockQuery,
+        top_k: 3,
+        truncation: true,
+        return_documents: false,
+      });
+    });
+
+    test('should send truncation setting', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        voyageModel: 'rerank-2.5-lite',
+        voyageTruncation: false
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockVoyageResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'voyage', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body.truncation).toBe(false);
+    });
+
+    test('should parse the data[] response shape', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockVoyageResponse);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'voyage', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 3, 0]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.88, 0.61, 0.24]);
+      expect(result[0]).not.toHaveProperty('_returnedDocument');
+    });
+  });
+
+  describe('Hugging Face TEI provider', () => {
+    let mockExecuteFunctions: any;
+
+    beforeEach(() => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        teiEndpoint: 'http://localhost:8080/rerank'
+      });
+    });
+
+    test('should send TEI request format', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockTeiResponse);
+
+      await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'tei',
+        mockQuery,
+        mockDocuments,
+        3,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('http://localhost:8080/rerank');
+      expect(call.headers.Authorization).toBeUndefined();
+      expect(call.body).toEqual({
+        query: mockQuery,
+        texts: [
+          'The quick brown fox jumps over the lazy dog',
+          'Machine learning is a subset of artificial intelligence',
+          'Natural language processing enables computers to understand human language',
+          'Deep learning uses neural networks with multiple layers',
+          JSON.stringify({ title: 'Custom Document', data: { value: 'This should be stringified' }, metadata: { source: 'doc5' } })
+        ],
+        raw_scores: false,
+        truncate: true,
+      });
+    });
+
+    test('should send bearer token when a credential is configured', async () => {
+      mockExecuteFunctions.getCredentials.mockResolvedValue({ apiKey: 'tei-key' });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockTeiResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.headers.Authorization).toBe('Bearer tei-key');
+    });
+
+    test('should parse bare array response and keep only topK', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockTeiResponse);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 3]);
+      expect(result[0]._rerankScore).toBe(0.97);
+    });
+
+    test('should pass raw scores through unchanged', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        teiEndpoint: 'http://localhost:8080/rerank',
+        teiRawScores: true
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue([
+        { index: 0, score: -2.5 },
+        { index: 1, score: 4.2 }
+      ]);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments.slice(0, 2), 10, -10, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body.raw_scores).toBe(true);
+      expect(result.map(doc => doc._rerankScore)).toEqual([4.2, -2.5]);
+    });
+  });
+
+  describe('LLM (Chat Completions) provider', () => {
+    let mockExecuteFunctions: any;
+
+    const chatResponse = (topLogprobs: Array<{ token: string; logprob: number }>) => ({
+      choices: [{
+        message: { role: 'assistant', content: topLogprobs[0].token },
+        logprobs: {
+          content: [{ token: topLogprobs[0].token, logprob: topLogprobs[0].logprob, top_logprobs: topLogprobs }]
+        }
+      }]
+    });
+
+    beforeEach(() => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        llmEndpoint: 'http://localhost:11434/v1/chat/completions',
+        llmModel: 'qwen2.5:7b-instruct',
+        llmConcurrency: 2
+      });
+    });
+
+    test('should ask a yes/no question per document', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(chatResponse([{ token: 'yes', logprob: -0.1 }]));
+
+      await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'llm',
+        mockQuery,
+        mockDocuments.slice(0, 3),
+        10,
+        0.0,
+        0,
+        false
+      );
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(3);
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[1][0];
+      expect(call.url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(call.body).toMatchObject({
+        model: 'qwen2.5:7b-instruct',
+        max_tokens: 1,
+        temperature: 0,
+        logprobs: true,
+      });
+      expect(call.body.messages[1].content).toBe(
+        `<Query>: ${mockQuery}\n<Document>: Machine learning is a subset of artificial intelligence`
+      );
+    });
+
+    test('should derive scores from yes/no logprobs', async () => {
+      mockExecuteFunctions.helpers.httpRequest
+        .mockResolvedValueOnce(chatResponse([{ token: 'no', logprob: Math.log(0.8) }, { token: 'yes', logprob: Math.log(0.2) }]))
+        .mockResolvedValueOnce(chatResponse([{ token: ' Yes', logprob: Math.log(0.9) }, { token: 'No', logprob: Math.log(0.1) }]))
+        .mockResolvedValueOnce(chatResponse([{ token: 'yes', logprob: Math.log(0.5) }]));
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'llm', mockQuery, mockDocuments.slice(0, 3), 10, 0.0, 0, false);
+
+      // "no" missing from the top logprobs means P(yes) / (P(yes) + P(no)) is 1
+      expect(result.map(doc => doc._originalIndex)).toEqual([2, 1, 0]);
+      expect(result[0]._rerankScore).toBeCloseTo(1.0);
+      expect(result[1]._rerankScore).toBeCloseTo(0.9);
+      expect(result[2]._rerankScore).toBeCloseTo(0.2);
+    });
+
+    test('should fall back to the answer text without logprobs', async () => {
+      mockExecuteFunctions.helpers.httpRequest
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'No' } }] })
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'Yes.' } }] });
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'llm', mockQuery, mockDocuments.slice(0, 2), 10, 0.5, 0, false);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]._originalIndex).toBe(1);
+      expect(result[0]._rerankScore).toBe(1);
+    });
+
+    test('should rank a single window in listwise mode', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        llmEndpoint: 'http://localhost:11434/v1/chat/completions',
+        llmModel: 'qwen2.5:7b-instruct',
+        llmMode: 'listwise'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        choices: [{ message: { content: '[2] > [3] > [1] > [5] > [4]' } }]
+      });
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'llm', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body.messages[1].content).toContain('[2] Machine learning is a subset of artificial intelligence');
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 0]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([1, 0.8, 0.6]);
+    });
+
+    test('should slide the window from the bottom of the list to the top', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        llmEndpoint: 'http://localhost:11434/v1/chat/completions',
+        llmModel: 'qwen2.5:7b-instruct',
+        llmMode: 'listwise',
+        llmWindowSize: 3,
+        llmStepSize: 2
+      });
+      // Window 1 covers positions 2-4, window 2 covers positions 0-2
+      mockExecuteFunctions.helpers.httpRequest
+        .mockResolvedValueOnce({ choices: [{ message: { content: '[3] > [1] > [2]' } }] })
+        .mockResolvedValueOnce({ choices: [{ message: { content: '[3] > [1] > [2]' } }] });
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'llm', mockQuery, mockDocuments, 5, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(2);
+      // Window 1 reorders [2, 3, 4] to [4, 2, 3]; window 2 reorders [0, 1, 4] to [4, 0, 1]
+      expect(result.map(doc => doc._originalIndex)).toEqual([4, 0, 1, 2, 3]);
+    });
+
+    test('should tolerate malformed permutations', async () => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        llmEndpoint: 'http://localhost:11434/v1/chat/completions',
+        llmModel: 'qwen2.5:7b-instruct',
+        llmMode: 'listwise'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        choices: [{ message: { content: 'The ranking is: [4] > [4] > [9] > [2]' } }]
+      });
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'llm', mockQuery, mockDocuments, 5, 0.0, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([3, 1, 0, 2, 4]);
+    });
+
+    test('should wrap chat API errors', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(
+        createMockHttpError(404, 'Not Found', { error: 'model not found' })
+      );
+
+      await expect(rerankWithProvider.call(
+        mockExecuteFunctions,
+        'llm',
+        mockQuery,
+        mockDocuments,
+        10,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow(NodeApiError);
+    });
+  });
+
+  describe('BM25 (Local) provider', () => {
+    let mockExecuteFunctions: any;
+
+    beforeEach(() => {
+      mockExecuteFunctions = createMockExecuteFunctions({ enableCache: false });
+    });
+
+    test('should rank documents locally without network requests', async () => {
+      const result = await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'bm25',
+        mockQuery,
+        mockDocuments,
+        10,
+        0.0,
+        0,
+        false
+      );
+
+      expect(mockExecuteFunctions.helpers.httpRequest).not.toHaveBeenCalled();
+      expect(result).toHaveLength(mockDocuments.length);
+      // "machine learning" and "artificial intelligence" both match document 2
+      expect(result[0]._originalIndex).toBe(1);
+      expect(result[0]._rerankScore).toBeGreaterThan(result[1]._rerankScore);
+    });
+
+    test('should give documents without query terms a zero score', async () => {
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'bm25', mockQuery, mockDocuments, 10, 0.0, 0, false);
+
+      const fox = result.find(doc => doc._originalIndex === 0);
+      expect(fox._rerankScore).toBe(0);
+    });
+
+    test('should weight rare terms higher than common ones', async () => {
+      const docs = [
+        { pageContent: 'apple banana' },
+        { pageContent: 'apple cherry' },
+        { pageContent: 'apple durian' },
+      ];
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'bm25', 'apple cherry', docs, 10, 0.0, 0, false);
+
+      expect(result[0]._originalIndex).toBe(1);
+    });
+
+    test('should apply length normalization through b', async () => {
+      const docs = [
+        { pageContent: 'neural networks ' + 'filler '.repeat(50) },
+        { pageContent: 'neural networks' },
+      ];
+
+      const normalized = await rerankWithProvider.call(mockExecuteFunctions, 'bm25', 'neural', docs, 10, 0.0, 0, false);
+      expect(normalized[0]._originalIndex).toBe(1);
+
+      mockExecuteFunctions = createMockExecuteFunctions({ enableCache: false, bm25B: 0 });
+      const unnormalized = await rerankWithProvider.call(mockExecuteFunctions, 'bm25', 'neural', docs, 10, 0.0, 0, false);
+      expect(unnormalized[0]._rerankScore).toBeCloseTo(unnormalized[1]._rerankScore);
+    });
+
+    test('should respect topK and handle unicode text', async () => {
+      const docs = [
+        { pageContent: 'Müller führt die Straße entlang' },
+        { pageContent: 'Der Hund läuft' },
+        { pageContent: 'Straße und Müller' },
+      ];
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'bm25', 'Müller Straße', docs, 2, 0.0, 0, false);
+
+      expect(result).toHaveLength(2);
+      expect(result.map(doc => doc._originalIndex)).not.toContain(1);
+    });
+  });
+
+  describe('Embedding Similarity provider', () => {
+    let mockExecuteFunctions: any;
+
+    beforeEach(() => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        embeddingEndpoint: 'http://localhost:11434/v1/embeddings',
+        embeddingModel: 'bge-m3',
+        embeddingQueryPrefix: 'query: ',
+        embeddingDocumentPrefix: 'passage: '
+      });
+    });
+
+    test('should embed query and documents in one request', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        data: [
+          { index: 0, embedding: [1, 0] },
+          { index: 1, embedding: [0, 1] },
+          { index: 2, embedding: [1, 1] }
+        ]
+      });
+
+      await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'embeddings',
+        'query text',
+        [{ pageContent: 'first' }, { pageContent: 'second' }],
+        10,
+        0.0,
+        0,
+        false
+      );
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(1);
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('http://localhost:11434/v1/embeddings');
+      expect(call.body).toEqual({
+        model: 'bge-m3',
+        input: ['query: query text', 'passage: first', 'passage: second'],
+      });
+    });
+
+    test('should rank by cosine similarity regardless of response order', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        data: [
+          { index: 2, embedding: [0.6, 0.8] },
+          { index: 0, embedding: [1, 0] },
+          { index: 3, embedding: [1, 0.1] },
+          { index: 1, embedding: [0, 1] }
+        ]
+      });
+
+      const result = await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'embeddings',
+        'query text',
+        [{ pageContent: 'a' }, { pageContent: 'b' }, { pageContent: 'c' }],
+        2,
+        0.0,
+        0,
+        false
+      );
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([2, 1]);
+      expect(result[1]._rerankScore).toBeCloseTo(0.6);
+    });
+
+    test('should fail when the embedding count does not match', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        data: [{ index: 0, embedding: [1, 0] }]
+      });
+
+      await expect(rerankWithProvider.call(
+        mockExecuteFunctions,
+        'embeddings',
+        'query text',
+        [{ pageContent: 'a' }],
+        10,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow(NodeApiError);
+    });
+  });
+
+  describe('Custom HTTP provider', () => {
+    test('should fill placeholders in the request body template', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        customEndpoint: 'https://reranker.internal/api/rank',
+        customHeaders: '{"X-Tenant": "acme"}',
+        customBodyTemplate: JSON.stringify({
+          question: 'Q: {{query}}',
+          passages: '{{documents}}',
+          options: { limit: '{{topN}}', model: 'internal-v2' }
+        }),
+        customResultsPath: '$.output.ranking',
+        customIndexField: 'doc.position',
+        customScoreField: "scores['relevance']"
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        output: {
+          ranking: [
+            { doc: { position: 1 }, scores: { relevance: 0.9 } },
+            { doc: { position: 0 }, scores: { relevance: 0.4 } }
+          ]
+        }
+      });
+
+      const result = await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'custom-http',
+        'my query',
+        [{ pageContent: 'first' }, { pageContent: 'second' }],
+        5,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('https://reranker.internal/api/rank');
+      expect(call.headers['X-Tenant']).toBe('acme');
+      expect(call.body).toEqual({
+        question: 'Q: my query',
+        passages: ['first', 'second'],
+        options: { limit: 2, model: 'internal-v2' }
+      });
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 0]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.9, 0.4]);
+    });
+
+    test('should read bare arrays in request order when no index field is set', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        customEndpoint: 'https://reranker.internal/api/rank',
+        customResultsPath: '$',
+        customIndexField: '',
+        customScoreField: 'score'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue([{ score: 0.2 }, { score: 0.7 }, { score: 0.5 }]);
+
+      const result = await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'custom-http',
+        'my query',
+        [{ pageContent: 'a' }, { pageContent: 'b' }, { pageContent: 'c' }],
+        2,
+        0.0,
+        0,
+        false
+      );
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.body).toEqual({ model: 'my-reranker', query: 'my query', documents: ['a', 'b', 'c'], top_n: 2 });
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2]);
+    });
+
+    test('should name the index field when a result does not have it', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        customEndpoint: 'https://reranker.internal/api/rank',
+        customResultsPath: '$.results',
+        customIndexField: 'doc.position',
+        customScoreField: 'score'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
+        results: [{ doc: { position: 0 }, score: 0.9 }, { id: 'b', score: 0.4 }]
+      });
+
+      await expect(rerankWithProvider.call(
+        mockExecuteFunctions,
+        'custom-http',
+        'my query',
+        [{ pageContent: 'a' }, { pageContent: 'b' }],
+        2,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow('Response result 1 has no document index in field "doc.position"');
+    });
+
+    test('should reject invalid JSON templates', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        customEndpoint: 'https://reranker.internal/api/rank',
+        customBodyTemplate: '{ "query": '
+      });
+
+      await expect(rerankWithProvider.call(
+        mockExecuteFunctions,
+        'custom-http',
+        'my query',
+        [{ pageContent: 'a' }],
+        2,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow('Invalid JSON in parameter "customBodyTemplate"');
+    });
+
+    test('should fail when the results path does not point to an array', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        customEndpoint: 'https://reranker.internal/api/rank',
+        customResultsPath: '$.missing'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ results: [] });
+
+      await expect(rerankWithProvider.call(
+        mockExecuteFunctions,
+        'custom-http',
+        'my query',
+        [{ pageContent: 'a' }],
+        2,
+        0.0,
+        0,
+        false
+      )).rejects.toThrow(NodeApiError);
+    });
+  });
+
+  describe('AWS Bedrock provider', () => {
+    test('should sign requests with AWS Signature Version 4', () => {
+      // Example request from the AWS SigV4 documentation
+      const headers = signAwsRequest({
+        method: 'GET',
+        url: 'https://iam.amazonaws.com/?Action=ListUsers&Version=2010-05-08',
+        headers: { 'content-type': 'application/x-www-form-urlencoded; charset=utf-8' },
+        body: '',
+        region: 'us-east-1',
+        service: 'iam',
+        credentials: {
+          accessKeyId: 'AKIDEXAMPLE',
+          secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+        },
+        date: new Date('2015-08-30T12:36:00Z'),
+      });
+
+      expect(headers['x-amz-date']).toBe('20150830T123600Z');
+      expect(headers.Authorization).toBe(
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/iam/aws4_request, ' +
+        'SignedHeaders=content-type;host;x-amz-date, ' +
+        'Signature=5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7'
+      );
+    });
+
+    test('should make a signed Rerank API call in the credential region', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        bedrockModel: 'cohere.rerank-v3-5:0'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockBedrockResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'bedrock', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('https://bedrock-agent-runtime.eu-central-1.amazonaws.com/rerank');
+      expect(call.headers.host).toBe('bedrock-agent-runtime.eu-central-1.amazonaws.com');
+      expect(call.headers.Authorization).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-central-1\/bedrock\/aws4_request, SignedHeaders=accept;content-type;host;x-amz-date, Signature=[0-9a-f]{64}$/
+      );
+      expect(typeof call.body).toBe('string');
+
+      const body = JSON.parse(call.body);
+      expect(body.queries).toEqual([{ type: 'TEXT', textQuery: { text: mockQuery } }]);
+      expect(body.sources).toHaveLength(mockDocuments.length);
+      expect(body.sources[0]).toEqual({
+        type: 'INLINE',
+        inlineDocumentSource: { type: 'TEXT', textDocument: { text: mockDocuments[0].pageContent } },
+      });
+      expect(body.rerankingConfiguration).toEqual({
+        type: 'BEDROCK_RERANKING_MODEL',
+        bedrockRerankingConfiguration: {
+          numberOfResults: 3,
+          modelConfiguration: {
+            modelArn: 'arn:aws:bedrock:eu-central-1::foundation-model/cohere.rerank-v3-5:0',
+          },
+        },
+      });
+    });
+
+    test('should use the endpoint override, model ARNs and session tokens', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        bedrockModel: 'custom',
+        bedrockCustomModel: 'arn:aws:bedrock:us-west-2::foundation-model/amazon.rerank-v1:0',
+        bedrockEndpoint: 'http://localhost:4566/rerank'
+      });
+      mockExecuteFunctions.getCredentials.mockResolvedValue({
+        region: 'us-west-2',
+        accessKeyId: 'ASIAEXAMPLE',
+        secretAccessKey: 'secret',
+        temporaryCredentials: true,
+        sessionToken: 'session-token',
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockBedrockResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'bedrock', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('http://localhost:4566/rerank');
+      expect(call.headers['x-amz-security-token']).toBe('session-token');
+      expect(call.headers.Authorization).toContain('SignedHeaders=accept;content-type;host;x-amz-date;x-amz-security-token');
+      expect(JSON.parse(call.body).rerankingConfiguration.bedrockRerankingConfiguration.modelConfiguration.modelArn)
+        .toBe('arn:aws:bedrock:us-west-2::foundation-model/amazon.rerank-v1:0');
+    });
+
+    test('should map relevanceScore to rerank scores', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        bedrockModel: 'amazon.rerank-v1:0'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockBedrockResponse);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'bedrock', mockQuery, mockDocuments, 3, 0.5, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([2, 0]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.93, 0.58]);
+    });
+  });
+
+  describe('Google Vertex AI Ranking provider', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+
+    // Token responses are cached per service account, so each test uses its own
+    function createVertexMock(email: string, parameters: Record<string, any> = {}) {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        vertexProjectId: 'my-project',
+        vertexModel: 'semantic-ranker-default@latest',
+        ...parameters
+      });
+      mockExecuteFunctions.getCredentials.mockResolvedValue({
+        email,
+        // Keys pasted from JSON key files keep escaped newlines
+        privateKey: privateKey.replace(/\n/g, '\\n'),
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockImplementation((request: any) =>
+        Promise.resolve(
+          request.url === 'https://oauth2.googleapis.com/token'
+            ? { access_token: 'ya29.mock-token', expires_in: 3600 }
+            : { records: [{ id: '3', score: 0.91 }, { id: '0', score: 0.47 }, { id: '1', score: 0.05 }] }
+        )
+      );
+      return mockExecuteFunctions;
+    }
+
+    test('should exchange a signed service account JWT for an access token', async () => {
+      const mockExecuteFunctions = createVertexMock('ranker-jwt@my-project.iam.gserviceaccount.com');
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'vertex', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      const tokenCall = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(tokenCall.url).toBe('https://oauth2.googleapis.com/token');
+      const assertion = new URLSearchParams(tokenCall.body).get('assertion')!;
+      const [header, claims, signature] = assertion.split('.');
+
+      const verifier = createVerify('RSA-SHA256');
+      verifier.update(`${header}.${claims}`);
+      expect(verifier.verify(publicKey, Buffer.from(signature, 'base64'))).toBe(true);
+      expect(JSON.parse(Buffer.from(claims, 'base64').toString())).toMatchObject({
+        iss: 'ranker-jwt@my-project.iam.gserviceaccount.com',
+        scope: 'https://www.googleapis.com/auth/cloud-platform',
+        aud: 'https://oauth2.googleapis.com/token',
+      });
+    });
+
+    test('should send records to the ranking config', async () => {
+      const mockExecuteFunctions = createVertexMock('ranker-records@my-project.iam.gserviceaccount.com');
+      const docs = [
+        { pageContent: 'First', metadata: { title: 'Intro' } },
+        { pageContent: 'Second', metadata: {} },
+      ];
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'vertex', 'my query', docs, 5, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[1][0];
+      expect(call.url).toBe(
+        'https://discoveryengine.googleapis.com/v1/projects/my-project/locations/global/rankingConfigs/default_ranking_config:rank'
+      );
+      expect(call.headers.Authorization).toBe('Bearer ya29.mock-token');
+      expect(call.body).toEqual({
+        model: 'semantic-ranker-default@latest',
+        query: 'my query',
+        records: [
+          { id: '0', title: 'Intro', content: 'First' },
+          { id: '1', content: 'Second' },
+        ],
+        topN: 2,
+        ignoreRecordDetailsInResponse: true,
+      });
+    });
+
+    test('should reuse access tokens and map record scores to original indices', async () => {
+      const mockExecuteFunctions = createVertexMock('ranker-scores@my-project.iam.gserviceaccount.com');
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'vertex', mockQuery, mockDocuments, 3, 0.0, 0, false);
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'vertex', mockQuery, mockDocuments, 3, 0.1, 0, false);
+
+      const urls = mockExecuteFunctions.helpers.httpRequest.mock.calls.map((call: any[]) => call[0].url);
+      expect(urls.filter((url: string) => url === 'https://oauth2.googleapis.com/token')).toHaveLength(1);
+      expect(result.map(doc => doc._originalIndex)).toEqual([3, 0]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.91, 0.47]);
+    });
+  });
+
+  describe('NVIDIA NIM provider', () => {
+    let mockExecuteFunctions: any;
+
+    beforeEach(() => {
+      mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        nimEndpoint: 'http://localhost:8000/v1/ranking',
+        nimModel: 'nvidia/llama-3.2-nv-rerankqa-1b-v2'
+      });
+    });
+
+    test('should send the query.text / passages request format', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockNimResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'nim', 'my query', [{ pageContent: 'a' }, { pageContent: 'b' }], 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('http://localhost:8000/v1/ranking');
+      expect(call.headers.Authorization).toBeUndefined();
+      expect(call.body).toEqual({
+        model: 'nvidia/llama-3.2-nv-rerankqa-1b-v2',
+        query: { text: 'my query' },
+        passages: [{ text: 'a' }, { text: 'b' }],
+        truncate: 'END',
+      });
+    });
+
+    test('should convert logits to probabilities before thresholding', async () => {
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockNimResponse);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'nim', mockQuery, mockDocuments, 3, 0.1, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([2, 0, 4]);
+      expect(result[0]._rerankScore).toBeCloseTo(0.9608, 4);
+      expect(result[1]._rerankScore).toBe(0.5);
+      expect(result[2]._rerankScore).toBeCloseTo(0.1824, 4);
+    });
+  });
+
+  describe('Pinecone Inference provider', () => {
+    test('should send text documents with the default rank field', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        pineconeModel: 'bge-reranker-v2-m3'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockPineconeResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'pinecone', 'my query', [{ pageContent: 'a' }, { pageContent: 'b' }], 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('https://api.pinecone.io/rerank');
+      expect(call.headers['Api-Key']).toBe('mock-pinecone-api-key');
+      expect(call.headers['X-Pinecone-API-Version']).toBe('2025-01');
+      expect(call.body).toEqual({
+        model: 'bge-reranker-v2-m3',
+        query: 'my query',
+        documents: [{ text: 'a' }, { text: 'b' }],
+        rank_fields: ['text'],
+        top_n: 2,
+        return_documents: false,
+      });
+    });
+
+    test('should rank on selected document fields', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        pineconeModel: 'cohere-rerank-3.5',
+        pineconeRankFields: 'metadata.title, pageContent',
+        pineconeReturnDocuments: true
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockPineconeResponse);
+
+      await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'pinecone',
+        'my query',
+        [{ pageContent: 'Body', metadata: { title: 'Title' } }, { pageContent: 'Other' }],
+        3,
+        0.0,
+        0,
+        false
+      );
+
+      const body = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body;
+      expect(body.rank_fields).toEqual(['metadata.title', 'pageContent']);
+      expect(body.documents).toEqual([
+        { 'metadata.title': 'Title', pageContent: 'Body' },
+        { pageContent: 'Other' },
+      ]);
+      expect(body.return_documents).toBe(true);
+    });
+
+    test('should map scores and returned documents', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        pineconeModel: 'bge-reranker-v2-m3'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockPineconeResponse);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'pinecone', mockQuery, mockDocuments, 3, 0.1, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([3, 1]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.82, 0.64]);
+      expect(result[0]._returnedDocument).toEqual({ text: 'Deep learning uses neural networks with multiple layers' });
+    });
+  });
+
+  describe('Mixedbread provider', () => {
+    test('should send document texts by default', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        mixedbreadModel: 'mixedbread-ai/mxbai-rerank-large-v2'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockMixedbreadResponse);
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'mixedbread', 'my query', [{ pageContent: 'a' }, { pageContent: 'b' }], 3, 0.0, 0, false);
+
+      const call = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0];
+      expect(call.url).toBe('https://api.mixedbread.com/v1/reranking');
+      expect(call.headers.Authorization).toBe('Bearer mock-mixedbread-api-key');
+      expect(call.body).toEqual({
+        model: 'mixedbread-ai/mxbai-rerank-large-v2',
+        query: 'my query',
+        input: ['a', 'b'],
+        top_k: 2,
+        return_input: false,
+      });
+    });
+
+    test('should send structured input with rank fields', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        mixedbreadModel: 'mixedbread-ai/mxbai-rerank-base-v2',
+        mixedbreadRankFields: 'metadata.title,pageContent'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockMixedbreadResponse);
+
+      await rerankWithProvider.call(
+        mockExecuteFunctions,
+        'mixedbread',
+        'my query',
+        [{ pageContent: 'Body', metadata: { title: 'Title' } }],
+        3,
+        0.0,
+        0,
+        false
+      );
+
+      const body = mockExecuteFunctions.helpers.httpRequest.mock.calls[0][0].body;
+      expect(body.input).toEqual([{ 'metadata.title': 'Title', pageContent: 'Body' }]);
+      expect(body.rank_fields).toEqual(['metadata.title', 'pageContent']);
+    });
+
+    test('should map scores to rerank results', async () => {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        mixedbreadModel: 'mixedbread-ai/mxbai-rerank-large-v2'
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockMixedbreadResponse);
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'mixedbread', mockQuery, mockDocuments, 3, 0.0, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([2, 3, 1]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([0.77, 0.41, 0.19]);
+    });
+  });
+
   describe('Edge Cases and Data Validation', () => {
     let mockExecuteFunctions: any;
 
@@ -0,0 +1,137 @@
+/**
+ * Score normalization tests
+ * Tests mapping scores onto a comparable scale before thresholding
+ */
+
+import { rerankWithProvider, clearCache } from '../nodes/shared/rerank.helpers';
+import { normalizeScores } from '../nodes/shared/score.utils';
+import { createMockExecuteFunctions, mockDocuments, mockQuery } from './helpers/mock-helpers';
+
+// TEI with raw_scores returns logits
+const rawLogits = [
+  { index: 1, score: 4 },
+  { index: 2, score: 2 },
+  { index: 0, score: 0 },
+  { index: 3, score: -2 },
+  { index: 4, score: -4 }
+];
+
+describe('Score Normalization', () => {
+  beforeEach(() => {
+    clearCache();
+  });
+
+  describe('normalizeScores', () => {
+    test('should apply the sigmoid function', () => {
+      const scores = normalizeScores([0, 2, -2], 'sigmoid');
+
+      expect(scores[0]).toBe(0.5);
+      expect(scores[1]).toBeCloseTo(0.8808, 4);
+      expect(scores[2]).toBeCloseTo(0.1192, 4);
+    });
+
+    test('should scale to 0-1 with min-max', () => {
+      expect(normalizeScores([10, 5, 0], 'minMax')).toEqual([1, 0.5, 0]);
+      expect(normalizeScores([3, 3], 'minMax')).toEqual([1, 1]);
+    });
+
+    test('should turn scores into probabilities with softmax', () => {
+      const scores = normalizeScores([1000, 1000, 999], 'softmax');
+
+      expect(scores.reduce((total, score) => total + score, 0)).toBeCloseTo(1, 10);
+      expect(scores[0]).toBeCloseTo(scores[1], 10);
+      expect(scores[0]).toBeGreaterThan(scores[2]);
+    });
+
+    test('should center and scale with z-score', () => {
+      expect(normalizeScores([1, 2, 3], 'zScore').map(score => Number(score.toFixed(4)))).toEqual([-1.2247, 0, 1.2247]);
+      expect(normalizeScores([2, 2], 'zScore')).toEqual([0, 0]);
+    });
+
+    test('should leave scores unchanged with none', () => {
+      expect(normalizeScores([4, -2], 'none')).toEqual([4, -2]);
+      expect(normalizeScores([], 'softmax')).toEqual([]);
+    });
+  });
+
+  describe('rerankWithProvider', () => {
+    function createTeiMock(parameters: Record<string, any> = {}) {
+      const mockExecuteFunctions = createMockExecuteFunctions({
+        enableCache: false,
+        teiEndpoint: 'http://localhost:8080/rerank',
+        teiRawScores: true,
+        ...parameters
+      });
+      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(rawLogits);
+      return mockExecuteFunctions;
+    }
+
+    test('should normalize before applying the threshold and keep the raw score', async () => {
+      const mockExecuteFunctions = createTeiMock({ scoreNormalization: 'minMax' });
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 10, 0.5, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 0]);
+      expect(result.map(doc => doc._rerankScore)).toEqual([1, 0.75, 0.5]);
+      expect(result.map(doc => doc._rawScore)).toEqual([4, 2, 0]);
+    });
+
+    test('should make logits usable with a 0-1 threshold via sigmoid', async () => {
+      const mockExecuteFunctions = createTeiMock({ scoreNormalization: 'sigmoid' });
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 10, 0.5, 0, false);
+
+      expect(result.map(doc => doc._originalIndex)).toEqual([1, 2, 0]);
+      expect(result[2]._rerankScore).toBe(0.5);
+    });
+
+    test('should not add raw scores without normalization', async () => {
+      const mockExecuteFunctions = createTeiMock();
+
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 10, -Infinity, 0, false);
+
+      expect(result.map(doc => doc._rerankScore)).toEqual([4, 2, 0, -2, -4]);
+      expect(result[0]).not.toHaveProperty('_rawScore');
+    });
+
+    test('should apply zero and negative thresholds to signed scores in order', async () => {
+      const mockExecuteFunctions = createTeiMock({ scoreNormalization: 'zScore' });
+      const keptWith = async (threshold: number) =>
+        (await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 10, threshold, 0, false))
+          .map(doc => doc._originalIndex);
+
+      expect(await keptWith(-Infinity)).toEqual([1, 2, 0, 3, 4]);
+      expect(await keptWith(-1)).toEqual([1, 2, 0, 3]);
+      expect(await keptWith(0)).toEqual([1, 2, 0]);
+      expect(await keptWith(0.001)).toEqual([1, 2]);
+    });
+
+    test('should normalize over every document whatever the Top K, fresh or cached', async () => {
+      const mockExecuteFunctions = createTeiMock({ enableCache: true, cacheTtl: 5, scoreNormalization: 'minMax' });
+      const rerank = (topK: number) =>
+        rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, topK, 0.5, 0, false);
+
+      const fresh = await rerank(2);
+      clearCache();
+      await rerank(10);
+      const cached = await rerank(2);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(fresh.map(doc => [doc._originalIndex, doc._rerankScore])).toEqual([[1, 1], [2, 0.75]]);
+      expect(cached).toEqual(fresh);
+    });
+
+    test('should cache normalized results separately', async () => {
+      const mockExecuteFunctions = createTeiMock({ enableCache: true, cacheTtl: 5, scoreNormalization: 'softmax' });
+
+      await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 10, 0.0, 0, false);
+      mockExecuteFunctions.getNodeParameter.mockImplementation((name: string, _itemIndex: number, fallback: any) =>
+        ({ enableCache: true, cacheTtl: 5, teiEndpoint: 'http://localhost:8080/rerank', teiRawScores: true, scoreNormalization: 'none' } as any)[name] ?? fallback
+      );
+      const result = await rerankWithProvider.call(mockExecuteFunctions, 'tei', mockQuery, mockDocuments, 10, 0.0, 0, false);
+
+      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(result[0]._rerankScore).toBe(4);
+    });
+  });
+});